@@ -6,29 +6,77 @@ import { ArenaChannel, ArenaItem } from "./types/arena-types";
 import {
   renderHomePage,
   renderItemPage,
+  renderSectionPage,
+  renderTagIndexPage,
+  renderTagPage,
+  renderAuthorIndexPage,
+  renderAuthorPage,
+  renderEventsPage,
+  renderNotesPage,
+  renderSearchPage,
   render404Page,
+  renderRedirectPage,
+  renderAboutPage,
+  setTemplateOverrides,
 } from "./scripts/template";
+import { TAGS_DIR, collectTags } from "./scripts/tags";
+import { AUTHORS_DIR, collectAuthors } from "./scripts/authors";
+import {
+  EVENTS_DIR,
+  EVENT_CALENDAR_FILE,
+  collectEvents,
+  toCalendarEvent,
+} from "./scripts/events";
+import { NOTES_DIR } from "./scripts/notes";
+import { ABOUT_DIR } from "./scripts/about";
+import {
+  SEARCH_DIR,
+  SEARCH_INDEX_FILE,
+  buildSearchEntries,
+  serialiseSearchIndex,
+} from "./scripts/search";
+import {
+  SITEMAP_FILE,
+  collectSitemapEntries,
+  isIndexable,
+} from "./scripts/sitemap";
+import { FEED_FILES, OPML_FILE, collectFeeds } from "./scripts/feeds";
+import { SiteConfig, getSiteConfigs } from "./scripts/site-config";
+import { generateICalendar } from "./utils/ical";
+import { generateRobotsTxt, generateSitemap } from "./utils/sitemap";
+import {
+  generateAtomFeed,
+  generateJsonFeed,
+  generateOpml,
+  generateRssFeed,
+} from "./utils/feed";
 import { copyDirectory } from "./utils/file";
-import { measurePageSize } from "./utils/size";
-// ~/~ end
-
-// ~/~ begin <<docs/build-system.md#build-constants>>[init]
-const BUILD_DIR = path.resolve(process.cwd(), "build");
+import { timePhase } from "./utils/timing";
+import {
+  getArenaImageSizes,
+  measureSite,
+  reportFileSize,
+} from "./utils/size";
 // ~/~ end
 
 // ~/~ begin <<docs/build-system.md#prepare-build-directory>>[init]
 /**
  * Ensures the build directory exists and is empty
+ * @param buildDir Directory the site is built into
+ * @param keep Directories inside it that belong to other sites
  */
-export function prepareBuildDirectory(): void {
+export function prepareBuildDirectory(
+  buildDir: string,
+  keep: string[] = []
+): void {
   // ~/~ begin <<docs/build-system.md#check-or-create-build-dir>>[init]
   // Create build directory if it doesn't exist
-  if (!fs.existsSync(BUILD_DIR)) {
+  if (!fs.existsSync(buildDir)) {
     try {
-      fs.mkdirSync(BUILD_DIR, { recursive: true });
+      fs.mkdirSync(buildDir, { recursive: true });
 
       // Verify directory was created
-      if (!fs.existsSync(BUILD_DIR)) {
+      if (!fs.existsSync(buildDir)) {
         console.error(`error`);
         throw new Error("Build directory creation failed silently");
       }
@@ -38,9 +86,10 @@ export function prepareBuildDirectory(): void {
     }
   } else {
     // Clear existing build directory content
-    fs.readdirSync(BUILD_DIR).forEach((file) => {
-      const filePath = path.join(BUILD_DIR, file);
-      if (file !== "node_modules" && file !== ".git") {
+    fs.readdirSync(buildDir).forEach((file) => {
+      const filePath = path.resolve(buildDir, file);
+      const isKept = keep.some((dir) => path.resolve(dir) === filePath);
+      if (file !== "node_modules" && file !== ".git" && !isKept) {
         if (fs.lstatSync(filePath).isDirectory()) {
           fs.rmSync(filePath, { recursive: true, force: true });
         } else {
@@ -53,7 +102,7 @@ export function prepareBuildDirectory(): void {
 
   // ~/~ begin <<docs/build-system.md#create-public-subdirs>>[init]
   // Create public directories in build
-  const publicBuildDir = path.join(BUILD_DIR, "public");
+  const publicBuildDir = path.join(buildDir, "public");
   fs.mkdirSync(publicBuildDir, { recursive: true });
   // ~/~ end
 }
@@ -63,10 +112,11 @@ export function prepareBuildDirectory(): void {
 /**
  * Copies static assets to the build directory
  * @param srcDir Source directory for static assets
+ * @param buildDir Directory the site is built into
  */
-export function copyStaticAssets(srcDir: string): void {
+export function copyStaticAssets(srcDir: string, buildDir: string): void {
   // Copy static assets to the build root
-  copyDirectory(path.join(srcDir, "public"), BUILD_DIR);
+  copyDirectory(path.join(srcDir, "public"), buildDir);
 }
 // ~/~ end
 
@@ -75,21 +125,25 @@ export function copyStaticAssets(srcDir: string): void {
  * Generates the home page and writes it to the build directory
  * @param channelData Channel data from Arena
  * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
  * @param templatesDir Directory containing templates
  */
 export async function generateHomePage(
   channelData: ArenaChannel,
   slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
   templatesDir: string
 ): Promise<void> {
-  const homeHtml = await renderHomePage(channelData, slugMap, templatesDir);
-  const homeFilePath = path.join(BUILD_DIR, "index.html");
+  const homeHtml = await renderHomePage(
+    channelData,
+    slugMap,
+    site,
+    templatesDir
+  );
+  const homeFilePath = path.join(site.outputDir, "index.html");
 
   // Write home page to build directory
   fs.writeFileSync(homeFilePath, homeHtml);
-
-  // Measure and update page size
-  measurePageSize(homeFilePath);
 }
 // ~/~ end
 
@@ -97,57 +151,428 @@ export async function generateHomePage(
 /**
  * Generates item pages and writes them to the build directory
  * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
  * @param templatesDir Directory containing templates
  * @param channelData Channel data from Arena
  */
 export async function generateItemPages(
   slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
   templatesDir: string,
   channelData: ArenaChannel // Added channelData here
 ): Promise<void> {
   for (const [slug, item] of slugMap.entries()) {
-    const itemDirectory = path.join(BUILD_DIR, slug);
+    const itemDirectory = path.join(site.outputDir, slug);
     fs.mkdirSync(itemDirectory, { recursive: true });
 
-    // Now channelData is available here
-    const itemHtml = await renderItemPage(
+    // Nested channels render as a section index instead of a single block
+    const itemHtml = item.section
+      ? await renderSectionPage(
+          channelData,
+          item,
+          slug,
+          slugMap,
+          site,
+          templatesDir
+        )
+      : await renderItemPage(
+          channelData,
+          item,
+          slugMap,
+          site,
+          templatesDir,
+          slug
+        );
+
+    const itemFilePath = path.join(itemDirectory, "index.html");
+
+    // Write item page to build directory
+    fs.writeFileSync(itemFilePath, itemHtml);
+  }
+}
+// ~/~ end
+
+// ~/~ begin <<docs/build-system.md#generate-tag-pages>>[init]
+/**
+ * Generates the tag index and a page for every tag
+ * @param channelData Channel data from Arena
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ */
+export async function generateTagPages(
+  channelData: ArenaChannel,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  templatesDir: string
+): Promise<void> {
+  const tags = collectTags(slugMap);
+  const tagsDirectory = path.join(site.outputDir, TAGS_DIR);
+  fs.mkdirSync(tagsDirectory, { recursive: true });
+
+  const indexFilePath = path.join(tagsDirectory, "index.html");
+  fs.writeFileSync(
+    indexFilePath,
+    renderTagIndexPage(channelData, tags, slugMap, site, templatesDir)
+  );
+
+  for (const tag of tags) {
+    const tagDirectory = path.join(tagsDirectory, tag.slug);
+    fs.mkdirSync(tagDirectory, { recursive: true });
+
+    const tagHtml = await renderTagPage(
       channelData,
-      item,
+      tag,
       slugMap,
+      site,
       templatesDir
     );
+    const tagFilePath = path.join(tagDirectory, "index.html");
 
-    const itemFilePath = path.join(itemDirectory, "index.html");
+    // Write tag page to build directory
+    fs.writeFileSync(tagFilePath, tagHtml);
+  }
+}
+// ~/~ end
 
-    // Write item page to build directory
-    fs.writeFileSync(itemFilePath, itemHtml);
+// ~/~ begin <<docs/build-system.md#generate-author-pages>>[init]
+/**
+ * Generates the authors index and a page for every author
+ * @param channelData Channel data from Arena
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ */
+export async function generateAuthorPages(
+  channelData: ArenaChannel,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  templatesDir: string
+): Promise<void> {
+  const authors = collectAuthors(slugMap);
+  const authorsDirectory = path.join(site.outputDir, AUTHORS_DIR);
+  fs.mkdirSync(authorsDirectory, { recursive: true });
+
+  const indexFilePath = path.join(authorsDirectory, "index.html");
+  fs.writeFileSync(
+    indexFilePath,
+    renderAuthorIndexPage(channelData, authors, slugMap, site, templatesDir)
+  );
+
+  for (const author of authors) {
+    const authorDirectory = path.join(authorsDirectory, author.slug);
+    fs.mkdirSync(authorDirectory, { recursive: true });
+
+    const authorHtml = await renderAuthorPage(
+      channelData,
+      author,
+      slugMap,
+      site,
+      templatesDir
+    );
+    const authorFilePath = path.join(authorDirectory, "index.html");
+
+    // Write author page to build directory
+    fs.writeFileSync(authorFilePath, authorHtml);
+  }
+}
+// ~/~ end
+
+// ~/~ begin <<docs/build-system.md#generate-event-pages>>[init]
+/**
+ * Generates the events page and the iCalendar files
+ * @param channelData Channel data from Arena
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ */
+export async function generateEventPages(
+  channelData: ArenaChannel,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  templatesDir: string
+): Promise<void> {
+  const events = collectEvents(slugMap);
 
-    // Measure and update page size
-    measurePageSize(itemFilePath);
+  const eventsDirectory = path.join(site.outputDir, EVENTS_DIR);
+  fs.mkdirSync(eventsDirectory, { recursive: true });
+
+  const eventsFilePath = path.join(eventsDirectory, "index.html");
+  fs.writeFileSync(
+    eventsFilePath,
+    await renderEventsPage(channelData, slugMap, site, templatesDir)
+  );
+
+  // One calendar to subscribe to with every event
+  fs.writeFileSync(
+    path.join(site.outputDir, "events.ics"),
+    generateICalendar(
+      events.map((event) => toCalendarEvent(event, site)),
+      channelData.title,
+      site.timeZone
+    )
+  );
+
+  // And one per event, next to the event's page
+  for (const event of events) {
+    const eventDirectory = path.join(site.outputDir, event.slug);
+    fs.mkdirSync(eventDirectory, { recursive: true });
+
+    fs.writeFileSync(
+      path.join(eventDirectory, EVENT_CALENDAR_FILE),
+      generateICalendar(
+        [toCalendarEvent(event, site)],
+        event.title,
+        site.timeZone
+      )
+    );
   }
 }
 // ~/~ end
 
+// ~/~ begin <<docs/build-system.md#generate-notes-page>>[init]
+/**
+ * Generates the notes archive
+ * @param channelData Channel data from Arena
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ */
+export function generateNotesPage(
+  channelData: ArenaChannel,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  templatesDir: string
+): void {
+  const notesDirectory = path.join(site.outputDir, NOTES_DIR);
+  fs.mkdirSync(notesDirectory, { recursive: true });
+
+  const notesFilePath = path.join(notesDirectory, "index.html");
+
+  // Write notes archive to build directory
+  fs.writeFileSync(
+    notesFilePath,
+    renderNotesPage(channelData, slugMap, site, templatesDir)
+  );
+}
+// ~/~ end
+
+// ~/~ begin <<docs/build-system.md#generate-search-page>>[init]
+/**
+ * Generates the search index and the search page
+ * @param channelData Channel data from Arena
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ */
+export async function generateSearchPage(
+  channelData: ArenaChannel,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  templatesDir: string
+): Promise<void> {
+  const entries = await buildSearchEntries(slugMap, site);
+
+  const searchDirectory = path.join(site.outputDir, SEARCH_DIR);
+  fs.mkdirSync(searchDirectory, { recursive: true });
+
+  // Write the index first, the page weight includes it
+  const indexFilePath = path.join(searchDirectory, SEARCH_INDEX_FILE);
+  fs.writeFileSync(indexFilePath, serialiseSearchIndex(entries));
+  reportFileSize(indexFilePath, `Search index (${entries.length} entries)`);
+
+  const searchFilePath = path.join(searchDirectory, "index.html");
+
+  // Write search page to build directory
+  fs.writeFileSync(
+    searchFilePath,
+    renderSearchPage(channelData, entries, slugMap, site, templatesDir)
+  );
+}
+// ~/~ end
+
 // ~/~ begin <<docs/build-system.md#generate-404-page>>[init]
 /**
  * Generates the 404 page and writes it to the build directory
  * @param channelData Channel data from Arena
  * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
  * @param templatesDir Directory containing templates
  */
 export function generate404Page(
   channelData: ArenaChannel,
   slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
   templatesDir: string
 ): void {
-  const notFoundHtml = render404Page(channelData, slugMap, templatesDir);
-  const notFoundFilePath = path.join(BUILD_DIR, "404.html");
+  const notFoundHtml = render404Page(
+    channelData,
+    slugMap,
+    site,
+    templatesDir
+  );
+  const notFoundFilePath = path.join(site.outputDir, "404.html");
 
   // Write 404 page to build directory
   fs.writeFileSync(notFoundFilePath, notFoundHtml);
+}
+// ~/~ end
+
+// ~/~ begin <<docs/build-system.md#generate-redirect-pages>>[init]
+/**
+ * Generates redirect stubs for old slugs and a machine-readable redirects file
+ * @param redirects Map of old slugs to current slugs
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ */
+export function generateRedirectPages(
+  redirects: Map<string, string>,
+  site: SiteConfig,
+  templatesDir: string
+): void {
+  for (const [oldSlug, targetSlug] of redirects.entries()) {
+    const redirectDirectory = path.join(site.outputDir, oldSlug);
+    fs.mkdirSync(redirectDirectory, { recursive: true });
+
+    const redirectHtml = renderRedirectPage(targetSlug, templatesDir);
+    fs.writeFileSync(path.join(redirectDirectory, "index.html"), redirectHtml);
+  }
+
+  const redirectList = Array.from(redirects.entries()).map(
+    ([oldSlug, targetSlug]) => ({
+      from: `/${oldSlug}`,
+      to: `/${targetSlug}`,
+      status: 301,
+    })
+  );
+
+  fs.writeFileSync(
+    path.join(site.outputDir, "redirects.json"),
+    JSON.stringify(redirectList, null, 2)
+  );
+
+  if (redirects.size > 0) {
+    console.log(`Generated ${redirects.size} redirects for renamed blocks`);
+  }
+}
+// ~/~ end
+
+// ~/~ begin <<docs/build-system.md#generate-sitemap>>[init]
+/**
+ * Generates the sitemap and robots.txt
+ * @param channelData Channel data from Arena
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ */
+export function generateSitemapFiles(
+  channelData: ArenaChannel,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig
+): void {
+  const indexable = isIndexable(channelData);
+  const writeSitemap = indexable && site.features.sitemap;
+
+  if (writeSitemap) {
+    const entries = collectSitemapEntries(channelData, slugMap, site);
+    fs.writeFileSync(
+      path.join(site.outputDir, SITEMAP_FILE),
+      generateSitemap(entries)
+    );
+    console.log(`Generated sitemap with ${entries.length} pages`);
+  } else if (!indexable) {
+    console.log("Channel is not indexable, disallowing all crawlers");
+  }
+
+  fs.writeFileSync(
+    path.join(site.outputDir, "robots.txt"),
+    generateRobotsTxt({
+      indexable,
+      disallow: site.robotsDisallow,
+      sitemapUrl: writeSitemap ? `${site.url}/${SITEMAP_FILE}` : undefined,
+    })
+  );
+}
+// ~/~ end
+
+// ~/~ begin <<docs/build-system.md#generate-feeds>>[init]
+/**
+ * Generates the site's feeds in every format, and the OPML file listing them
+ * @param channelData Channel data from Arena
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ */
+export async function generateFeeds(
+  channelData: ArenaChannel,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig
+): Promise<void> {
+  const feeds = await collectFeeds(channelData, slugMap, site);
+
+  for (const { dir, info, entries } of feeds) {
+    const feedDir = path.join(site.outputDir, dir);
+    fs.mkdirSync(feedDir, { recursive: true });
+
+    fs.writeFileSync(
+      path.join(feedDir, FEED_FILES.rss),
+      generateRssFeed(info, entries)
+    );
+    fs.writeFileSync(
+      path.join(feedDir, FEED_FILES.atom),
+      generateAtomFeed(info, entries)
+    );
+    fs.writeFileSync(
+      path.join(feedDir, FEED_FILES.json),
+      generateJsonFeed(info, entries)
+    );
+  }
+
+  fs.writeFileSync(
+    path.join(site.outputDir, OPML_FILE),
+    generateOpml(
+      channelData.title,
+      feeds.map((feed) => feed.info)
+    )
+  );
+  console.log(
+    `Generated ${feeds.length} feeds with ${feeds[0].entries.length} entries`
+  );
+}
+// ~/~ end
+
+// ~/~ begin <<docs/build-system.md#measure-page-sizes>>[init]
+/**
+ * Measures every page of the site, writes the size report and the about
+ * page summing it up
+ * @param channelData Channel data from Arena
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ * @param offline Whether to measure without network access
+ */
+export async function measurePageSizes(
+  channelData: ArenaChannel,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  templatesDir: string,
+  offline: boolean
+): Promise<void> {
+  const report = await measureSite(
+    site,
+    { offline, knownSizes: getArenaImageSizes(slugMap) },
+    (totals) => {
+      const aboutDirectory = path.join(site.outputDir, ABOUT_DIR);
+      fs.mkdirSync(aboutDirectory, { recursive: true });
+
+      fs.writeFileSync(
+        path.join(aboutDirectory, "index.html"),
+        renderAboutPage(channelData, slugMap, site, templatesDir, totals)
+      );
+    }
+  );
 
-  // Measure and update page size
-  measurePageSize(notFoundFilePath);
+  if (report.violations.length > 0) {
+    process.exitCode = 1;
+  }
 }
 // ~/~ end
 
@@ -157,11 +582,17 @@ export function generate404Page(
  * @param channelData Channel data from Arena
  * @param slugMap Map of slugs to ArenaItems
  * @param sourceDir Source directory for static assets and templates
+ * @param site Site config
+ * @param redirects Map of old slugs to current slugs
+ * @param offline Whether to measure page sizes without network access
  */
 export async function generateStaticPages(
   channelData: ArenaChannel,
   slugMap: Map<string, ArenaItem>,
-  sourceDir: string
+  sourceDir: string,
+  site: SiteConfig,
+  redirects: Map<string, string> = new Map(),
+  offline: boolean = false
 ): Promise<void> {
   try {
     if (!channelData) {
@@ -171,21 +602,95 @@ export async function generateStaticPages(
     }
 
     const templatesDir = path.join(sourceDir, "views");
+    const { features } = site;
+
+    // Use the site's own versions of the templates it overrides
+    setTemplateOverrides(templatesDir, site.templates);
 
     // Prepare build directory
-    prepareBuildDirectory();
+    await timePhase("Prepare build directory", () =>
+      prepareBuildDirectory(
+        site.outputDir,
+        getSiteConfigs().map((other) => other.outputDir)
+      )
+    );
 
     // Copy static assets
-    copyStaticAssets(sourceDir);
+    await timePhase("Copy static assets", () =>
+      copyStaticAssets(sourceDir, site.outputDir)
+    );
 
     // Generate home page
-    await generateHomePage(channelData, slugMap, templatesDir);
+    await timePhase("Home page", () =>
+      generateHomePage(channelData, slugMap, site, templatesDir)
+    );
 
     // Generate item pages - Pass channelData here
-    await generateItemPages(slugMap, templatesDir, channelData);
+    await timePhase(`Item pages (${slugMap.size})`, () =>
+      generateItemPages(slugMap, site, templatesDir, channelData)
+    );
+
+    // Generate tag pages
+    if (features.tags) {
+      await timePhase("Tag pages", () =>
+        generateTagPages(channelData, slugMap, site, templatesDir)
+      );
+    }
+
+    // Generate author pages
+    if (features.authors) {
+      await timePhase("Author pages", () =>
+        generateAuthorPages(channelData, slugMap, site, templatesDir)
+      );
+    }
+
+    // Generate events page and calendars
+    if (features.events) {
+      await timePhase("Events", () =>
+        generateEventPages(channelData, slugMap, site, templatesDir)
+      );
+    }
+
+    // Generate notes archive
+    if (features.notes) {
+      await timePhase("Notes archive", () =>
+        generateNotesPage(channelData, slugMap, site, templatesDir)
+      );
+    }
+
+    // Generate search index and page
+    if (features.search) {
+      await timePhase("Search", () =>
+        generateSearchPage(channelData, slugMap, site, templatesDir)
+      );
+    }
 
     // Generate 404 page
-    generate404Page(channelData, slugMap, templatesDir);
+    await timePhase("404 page", () =>
+      generate404Page(channelData, slugMap, site, templatesDir)
+    );
+
+    // Generate redirects for renamed blocks
+    await timePhase("Redirects", () =>
+      generateRedirectPages(redirects, site, templatesDir)
+    );
+
+    // Generate sitemap and robots.txt
+    await timePhase("Sitemap", () =>
+      generateSitemapFiles(channelData, slugMap, site)
+    );
+
+    // Generate RSS, Atom and JSON feeds
+    if (features.rss) {
+      await timePhase("Feeds", () =>
+        generateFeeds(channelData, slugMap, site)
+      );
+    }
+
+    // Measure every page once it is written
+    await timePhase("Page sizes", () =>
+      measurePageSizes(channelData, slugMap, site, templatesDir, offline)
+    );
 
     const completionTime = new Date().toLocaleString("en-GB", {
       year: "numeric",
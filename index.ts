@@ -2,65 +2,291 @@ import path from "path";
 import fs from "fs";
 import * as dotenv from "dotenv";
 import { ArenaService } from "./scripts/arena";
+import { ArenaCache } from "./scripts/cache";
 import { Slug } from "./scripts/slug";
+import { savePathsModule } from "./scripts/paths";
+import { collectTags, getTagPageSlugs } from "./scripts/tags";
+import { collectAuthors, getAuthorPageSlugs } from "./scripts/authors";
+import { EVENTS_DIR } from "./scripts/events";
+import { NOTES_DIR } from "./scripts/notes";
+import { SEARCH_DIR } from "./scripts/search";
+import { ABOUT_DIR } from "./scripts/about";
+import { setTemplateWatchMode } from "./scripts/template";
+import { SiteConfig, getSiteConfigs } from "./scripts/site-config";
 import { generateStaticPages } from "./build";
-import { generateRSSFeed } from "./utils/rss";
+import {
+  SlugOptions,
+  loadRendererModules,
+  reportPhaseTimings,
+  timePhase,
+} from "./utils";
+import { ArenaChannel, ArenaItem } from "./types/arena-types";
 
 dotenv.config();
 
-const CHANNEL_SLUG =
-  process.env.CHANNEL_SLUG ??
-  (() => {
-    throw new Error("CHANNEL_SLUG is required");
-  })();
+// Keep running and rebuild pages when templates change
+const WATCH = process.argv.includes("--watch");
+
+// Offline builds read the channel from the snapshot instead of the Arena API
+const OFFLINE =
+  process.argv.includes("--offline") || process.env.ARENA_OFFLINE === "1";
+
+// Levels of connected channels built as sections (0 disables them)
+const SECTION_DEPTH = parseInt(process.env.ARENA_SECTION_DEPTH ?? "1", 10);
 
 const ARENA_ACCESS_TOKEN =
   process.env.ARENA_ACCESS_TOKEN ??
+  (OFFLINE ? "" : undefined) ??
   (() => {
     throw new Error("ARENA_ACCESS_TOKEN is required");
   })();
 
-const SLUG_MAPPING_FILE = path.join(__dirname, "slug-mappings.json");
+// How slugs treat non-Latin scripts and date titles
+const SLUG_OPTIONS: SlugOptions = {
+  unicode: process.env.SLUG_UNICODE === "keep" ? "keep" : "strip",
+  preserveDates: process.env.SLUG_PRESERVE_DATES === "1",
+};
+
+const PATHS_FILE = path.join(__dirname, "types", "paths.ts");
 const SOURCE_DIR = __dirname;
 
+// Project block renderers, registered on top of the built-in ones
+const RENDERERS_DIR = path.join(__dirname, "renderers");
+
 /**
- * Main build function
+ * Files a site keeps between builds
  */
-export async function buildStaticSite(): Promise<void> {
-  try {
-    // Ensure slug-mappings.json is deleted before building
-    if (fs.existsSync(SLUG_MAPPING_FILE)) {
-      fs.unlinkSync(SLUG_MAPPING_FILE);
-      console.log("Deleted existing slug-mappings.json file");
-    }
+interface SiteFiles {
+  channelSlug: string;
+  cacheFile: string;
+  slugMappingFile: string;
+  // Only the first site regenerates the typed paths module
+  pathsFile?: string;
+}
 
-    // Create Arena service
-    const arenaService = new ArenaService(ARENA_ACCESS_TOKEN, CHANNEL_SLUG);
+/**
+ * Works out which channel a site is built from and where its snapshot and
+ * slug mappings live. The first site keeps arena_cache.json and
+ * slug-mappings.json, so an existing site can become the first of several
+ * channels without losing its snapshot or slug history.
+ * @param site Site config
+ * @param index Position of the site in the config file
+ * @returns Channel slug and files of the site
+ */
+function getSiteFiles(site: SiteConfig, index: number): SiteFiles {
+  const suffix = index === 0 ? "" : `.${site.channel}`;
+  const cacheFile = path.join(__dirname, `arena_cache${suffix}.json`);
 
-    // Create slug mapper
-    const slug = new Slug(SLUG_MAPPING_FILE);
+  const channelSlug =
+    site.channel ??
+    process.env.CHANNEL_SLUG ??
+    (OFFLINE ? new ArenaCache(cacheFile).load()?.channel.slug : undefined);
+  if (!channelSlug) {
+    throw new Error("CHANNEL_SLUG is required");
+  }
+
+  return {
+    channelSlug,
+    cacheFile,
+    slugMappingFile: path.join(__dirname, `slug-mappings${suffix}.json`),
+    pathsFile: index === 0 ? PATHS_FILE : undefined,
+  };
+}
+
+/**
+ * Generates the pages and feeds of the site from fetched channel data
+ * @param channelData Channel data from Arena
+ * @param slugMap Map of slugs to ArenaItems
+ * @param redirects Map of old slugs to current slugs
+ * @param site Site config
+ */
+async function generateSite(
+  channelData: ArenaChannel,
+  slugMap: Map<string, ArenaItem>,
+  redirects: Map<string, string>,
+  site: SiteConfig,
+): Promise<void> {
+  // Generate static pages
+  await generateStaticPages(
+    channelData,
+    slugMap,
+    SOURCE_DIR,
+    site,
+    redirects,
+    OFFLINE,
+  );
+
+  reportPhaseTimings();
+}
+
+/**
+ * Lists a directory and every directory below it
+ * @param dir Directory to start from
+ * @returns Paths of the directory and its subdirectories
+ */
+function listDirectories(dir: string): string[] {
+  return [
+    dir,
+    ...fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .flatMap((entry) => listDirectories(path.join(dir, entry.name))),
+  ];
+}
+
+/**
+ * Watches the templates and regenerates the sites when they change
+ * @param templateDirs Shared templates and the sites' template overrides
+ * @param rebuild Function regenerating the sites
+ */
+function watchTemplates(
+  templateDirs: string[],
+  rebuild: () => Promise<void>,
+): void {
+  let pending: NodeJS.Timeout | undefined;
 
-    // Fetch channel data
-    const channelData = await arenaService.fetchChannelData();
+  // Cached templates are re-read when their mtime changes
+  setTemplateWatchMode(true);
 
-    if (!channelData) {
-      throw new Error("Failed to fetch channel data");
+  const onChange = () => {
+    // Editors often write a file several times in a row
+    clearTimeout(pending);
+    pending = setTimeout(async () => {
+      console.log("Templates changed, rebuilding pages");
+      try {
+        await rebuild();
+      } catch (err) {
+        console.error("Rebuild failed:", err);
+      }
+    }, 100);
+  };
+
+  // Recursive watching isn't available on Linux before Node 19.1, so every
+  // directory is watched on its own, including ones created while watching
+  const watchers = new Map<string, fs.FSWatcher>();
+
+  const watchDirectory = (dir: string) => {
+    for (const subdir of listDirectories(dir)) {
+      if (watchers.has(subdir)) continue;
+
+      const watcher = fs.watch(subdir, () => {
+        if (fs.existsSync(subdir)) {
+          watchDirectory(subdir);
+        } else {
+          watcher.close();
+          watchers.delete(subdir);
+        }
+        onChange();
+      });
+      watchers.set(subdir, watcher);
     }
+  };
+
+  for (const templatesDir of templateDirs) {
+    watchDirectory(templatesDir);
+    console.log(`Watching ${templatesDir} for changes`);
+  }
+}
+
+/**
+ * Fetches the channel of a site and builds the site from it
+ * @param site Site config
+ * @param files Channel slug and files of the site
+ * @param fetched Channels already fetched for other sites in this run
+ * @returns Function regenerating the site from the same data
+ */
+async function buildSite(
+  site: SiteConfig,
+  files: SiteFiles,
+  fetched: Map<string, Promise<ArenaChannel>>,
+): Promise<() => Promise<void>> {
+  // Create Arena service, snapshotting every successful fetch
+  const arenaService = new ArenaService(
+    ARENA_ACCESS_TOKEN,
+    files.channelSlug,
+    {
+      cache: new ArenaCache(files.cacheFile),
+      offline: OFFLINE,
+      maxDepth: SECTION_DEPTH,
+      fetched,
+    },
+  );
+
+  // Create slug mapper
+  const slug = new Slug(files.slugMappingFile);
+
+  // Fetch channel data
+  const channelData = await timePhase("Fetch channel data", () =>
+    arenaService.fetchChannelData(),
+  );
 
+  if (!channelData) {
+    throw new Error("Failed to fetch channel data");
+  }
+
+  const { slugMap, redirects } = await timePhase("Allocate slugs", () => {
     // Create slug map
-    const slugMap = arenaService.createSlugMap(channelData);
+    const slugMap = arenaService.createSlugMap(channelData, SLUG_OPTIONS);
+
+    // Save slug mappings to file, keeping the history of previous slugs
+    slug.saveSlugMappings(slugMap);
 
-    // Save slug mappings to file
-    slug.saveSlugMappings(channelData);
+    // Regenerate the typed page paths used by scripts and templates
+    if (files.pathsFile) {
+      const { features } = site;
+      savePathsModule(slugMap, files.pathsFile, [
+        ...(features.tags ? getTagPageSlugs(collectTags(slugMap)) : []),
+        ...(features.authors
+          ? getAuthorPageSlugs(collectAuthors(slugMap))
+          : []),
+        ...(features.events ? [EVENTS_DIR] : []),
+        ...(features.notes ? [NOTES_DIR] : []),
+        ...(features.search ? [SEARCH_DIR] : []),
+        ...(features.about ? [ABOUT_DIR] : []),
+      ]);
+    }
+
+    // Old slugs of renamed blocks redirect to their current page
+    return { slugMap, redirects: slug.getRedirects(slugMap) };
+  });
+
+  await generateSite(channelData, slugMap, redirects, site);
+
+  return () => generateSite(channelData, slugMap, redirects, site);
+}
+
+/**
+ * Main build function, building every site in the site config
+ */
+export async function buildStaticSite(): Promise<void> {
+  try {
+    // Read the site configs once, every page is rendered with its site's
+    const sites = getSiteConfigs();
+
+    // Sites built from the same channels only fetch them once
+    const fetched = new Map<string, Promise<ArenaChannel>>();
 
-    // Generate static pages
-    await generateStaticPages(channelData, slugMap, SOURCE_DIR);
+    await loadRendererModules(RENDERERS_DIR);
 
-    const rssContent = generateRSSFeed(
-      channelData,
-      "https://london.permacomputing.net",
-    );
-    fs.writeFileSync(path.join(__dirname, "build", "rss.xml"), rssContent);
+    const rebuilds: Array<() => Promise<void>> = [];
+    for (let index = 0; index < sites.length; index++) {
+      const site = sites[index];
+      if (sites.length > 1) {
+        console.log(`Building ${site.url} into ${site.outputDir}`);
+      }
+      rebuilds.push(await buildSite(site, getSiteFiles(site, index), fetched));
+    }
+
+    // Rebuild pages from the same data whenever a template changes
+    if (WATCH) {
+      const templateDirs = [
+        path.join(SOURCE_DIR, "views"),
+        ...sites.flatMap((site) => (site.templates ? [site.templates] : [])),
+      ];
+      watchTemplates(templateDirs, async () => {
+        for (const rebuild of rebuilds) await rebuild();
+      });
+    }
 
     return;
   } catch (err) {
@@ -74,7 +300,8 @@ if (require.main === module) {
   (async () => {
     try {
       await buildStaticSite();
-      process.exit(0);
+      // Pages over a page-weight budget set a non-zero exit code
+      if (!WATCH) process.exit(process.exitCode ?? 0);
     } catch (err) {
       console.error("Error during build process:", err);
       process.exit(1);
@@ -1,8 +1,13 @@
 // Tag filtering functionality with sidebar display
+// Tag links point at the static /tags/<tag>/ pages. On the home page this script enhances them by filtering the blocks in place instead.
 // This script automatically checks if there's a tag in the URL hash when the page loads. When a tag is present in the URL, only items with matching tags will be displayed. When no tag is in the URL, all items are shown. If no items match the selected tag, a "No items found..." message appears with a "View all items" link to clear the filter.
 // Filters items in appropriate sidebars while hiding them from main content.
 
 document.addEventListener("DOMContentLoaded", function () {
+  // Only the home page has every block to filter, other pages follow the links
+  const isHomePage = window.location.pathname === "/";
+  if (!isHomePage) return;
+
   // Function to filter items based on tag in URL hash
   function filterItemsByTag() {
     // Get the current hash from the URL without the # symbol
@@ -19,8 +24,8 @@ document.addEventListener("DOMContentLoaded", function () {
       });
 
       // Clear any filtered content from sidebars (keep original titles)
-      clearSidebarContent(leftSidebar, "Notes");
-      clearSidebarContent(rightSidebar, "Events");
+      clearSidebarContent(leftSidebar);
+      clearSidebarContent(rightSidebar);
 
       // Remove any existing "no results" message
       const existingMessage = document.getElementById("no-results-message");
@@ -30,11 +35,8 @@ document.addEventListener("DOMContentLoaded", function () {
       return;
     }
 
-    // Handle special cases for 'notes' and 'event' tags
-    if (
-      currentTag.toLowerCase() === "notes" ||
-      currentTag.toLowerCase() === "event"
-    ) {
+    // Tags of the sidebar headings (e.g. 'notes' and 'event') fill their sidebar
+    if (getSidebarForTag(currentTag.toLowerCase())) {
       handleSidebarFiltering(currentTag.toLowerCase());
       return;
     }
@@ -43,13 +45,18 @@ document.addEventListener("DOMContentLoaded", function () {
     handleRegularTagFiltering(currentTag);
   }
 
+  // Find the sidebar whose heading has the tag, set from the site config
+  function getSidebarForTag(tag) {
+    return Array.from(document.querySelectorAll(".sidebar")).find((sidebar) => {
+      const heading = sidebar.querySelector("h1 a[data-tag]");
+      return heading && heading.dataset.tag.toLowerCase() === tag;
+    });
+  }
+
   // Handle sidebar filtering
   function handleSidebarFiltering(tagType) {
     const contentBlocks = document.querySelectorAll(".content-block");
-    const targetSidebar =
-      tagType === "notes"
-        ? document.querySelector(".sidebar.left")
-        : document.querySelector(".sidebar.right");
+    const targetSidebar = getSidebarForTag(tagType);
 
     let matchingItems = [];
 
@@ -81,8 +88,13 @@ document.addEventListener("DOMContentLoaded", function () {
     });
 
     // Clear and populate the target sidebar
-    const sidebarTitle = tagType === "notes" ? "Notes" : "Events";
-    clearSidebarContent(targetSidebar, sidebarTitle);
+    clearSidebarContent(targetSidebar);
+
+    // The filtered blocks replace the list of next events
+    const nextEvents = targetSidebar.querySelector(".next-events");
+    if (nextEvents) {
+      nextEvents.style.display = "none";
+    }
 
     if (matchingItems.length > 0) {
       matchingItems.forEach((item) => {
@@ -97,13 +109,10 @@ document.addEventListener("DOMContentLoaded", function () {
       targetSidebar.appendChild(noItemsMsg);
     }
 
-    // Clear the other sidebar
-    const otherSidebar =
-      tagType === "notes"
-        ? document.querySelector(".sidebar.right")
-        : document.querySelector(".sidebar.left");
-    const otherTitle = tagType === "notes" ? "Events" : "Notes";
-    clearSidebarContent(otherSidebar, otherTitle);
+    // Clear the other sidebars
+    document.querySelectorAll(".sidebar").forEach((sidebar) => {
+      if (sidebar !== targetSidebar) clearSidebarContent(sidebar);
+    });
   }
 
   // Handle regular tag filtering
@@ -112,8 +121,8 @@ document.addEventListener("DOMContentLoaded", function () {
     let matchFound = false;
 
     // Clear sidebars for regular tag filtering
-    clearSidebarContent(document.querySelector(".sidebar.left"), "Notes");
-    clearSidebarContent(document.querySelector(".sidebar.right"), "Events");
+    clearSidebarContent(document.querySelector(".sidebar.left"));
+    clearSidebarContent(document.querySelector(".sidebar.right"));
 
     // Loop through each content block
     contentBlocks.forEach((block) => {
@@ -161,10 +170,13 @@ document.addEventListener("DOMContentLoaded", function () {
   function clearSidebarContent(sidebar) {
     if (!sidebar) return;
 
-    // Remove all content except the h1 title
+    // Remove the filtered content, keeping the title and the list of next
+    // events rendered by the build
     const children = Array.from(sidebar.children);
     children.forEach((child) => {
-      if (child.tagName !== "H1") {
+      if (child.classList.contains("next-events")) {
+        child.style.display = "";
+      } else if (child.tagName !== "H1") {
         child.remove();
       }
     });
@@ -180,7 +192,7 @@ document.addEventListener("DOMContentLoaded", function () {
   document.querySelectorAll(".tag-link").forEach((tagLink) => {
     tagLink.addEventListener("click", function (e) {
       const tag = this.textContent.trim().substring(1);
-      window.location.href = window.location.origin + "/#" + tag;
+      window.location.hash = tag;
       e.preventDefault();
     });
   });
@@ -188,12 +200,10 @@ document.addEventListener("DOMContentLoaded", function () {
   // Add click event listeners to sidebar titles
   document.querySelectorAll(".sidebar h1 a").forEach((link) => {
     link.addEventListener("click", function (e) {
-      e.preventDefault();
-      const href = this.getAttribute("href");
-
-      // Extract the tag from href (e.g., "/#notes" -> "notes")
-      if (href && href.startsWith("/#")) {
-        const tag = href.substring(2);
+      // Take the tag from the data-tag attribute (e.g., "notes")
+      const tag = this.dataset.tag;
+      if (tag) {
+        e.preventDefault();
         const currentTag = window.location.hash.substring(1);
 
         // Toggle functionality: if current tag matches clicked tag, clear it
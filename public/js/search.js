@@ -0,0 +1,142 @@
+// Client-side search for the /search/ page
+// Loads the search index generated by the build (/search/index.json) and filters it as you type. Everything runs in the browser, so search works from the static build without a server. Without JavaScript the page shows a plain list of every item instead.
+
+document.addEventListener("DOMContentLoaded", function () {
+  const form = document.querySelector(".search-form");
+  const input = document.getElementById("search-input");
+  const results = document.getElementById("search-results");
+  const status = document.getElementById("search-status");
+  if (!form || !input || !results) return;
+
+  // How much a match in each field counts towards an item's score
+  const WEIGHTS = { title: 5, tags: 3, authors: 3, text: 1 };
+  const MAX_RESULTS = 50;
+  const SNIPPET_LENGTH = 160;
+
+  let entries = [];
+  const allItems = results.innerHTML;
+
+  // Turn the compact index (arrays in the order of "fields") into objects
+  function readIndex(index) {
+    return index.items.map((values) => {
+      const entry = {};
+      index.fields.forEach((field, i) => {
+        entry[field] = values[i];
+      });
+      entry.search = {
+        title: entry.title.toLowerCase(),
+        tags: entry.tags.join(" ").toLowerCase(),
+        authors: entry.authors.join(" ").toLowerCase(),
+        text: entry.text.toLowerCase(),
+      };
+      return entry;
+    });
+  }
+
+  // Every term has to appear in at least one field
+  function score(entry, terms) {
+    let total = 0;
+    for (const term of terms) {
+      let termScore = 0;
+      for (const field in WEIGHTS) {
+        if (entry.search[field].includes(term)) {
+          termScore += WEIGHTS[field];
+        }
+      }
+      if (termScore === 0) return 0;
+      total += termScore;
+    }
+    return total;
+  }
+
+  // Cut the text around the first matching term
+  function snippet(entry, terms) {
+    const text = entry.text;
+    const position = terms
+      .map((term) => entry.search.text.indexOf(term))
+      .filter((index) => index !== -1)
+      .sort((a, b) => a - b)[0];
+
+    if (position === undefined) return text.substring(0, SNIPPET_LENGTH);
+
+    const start = Math.max(0, position - SNIPPET_LENGTH / 2);
+    return (
+      (start > 0 ? "…" : "") +
+      text.substring(start, start + SNIPPET_LENGTH) +
+      (start + SNIPPET_LENGTH < text.length ? "…" : "")
+    );
+  }
+
+  function render(query) {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+    if (terms.length === 0) {
+      results.innerHTML = allItems;
+      status.textContent = "";
+      return;
+    }
+
+    const matches = entries
+      .map((entry) => ({ entry, score: score(entry, terms) }))
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RESULTS);
+
+    results.replaceChildren(
+      ...matches.map(({ entry }) => {
+        const item = document.createElement("li");
+        const link = document.createElement("a");
+        link.href = "/" + entry.slug;
+        link.textContent = entry.title;
+        item.appendChild(link);
+
+        const text = snippet(entry, terms);
+        if (text) {
+          const paragraph = document.createElement("p");
+          paragraph.className = "search-snippet";
+          paragraph.textContent = text;
+          item.appendChild(paragraph);
+        }
+        return item;
+      }),
+    );
+
+    status.textContent =
+      matches.length === 0
+        ? `Nothing found for "${query}".`
+        : `${matches.length} result${matches.length === 1 ? "" : "s"}`;
+  }
+
+  fetch("/search/index.json")
+    .then((response) => response.json())
+    .then((index) => {
+      entries = readIndex(index);
+      form.hidden = false;
+
+      // Searches submitted with the form arrive as ?q=
+      const query = new URLSearchParams(window.location.search).get("q");
+      if (query) {
+        input.value = query;
+        render(query);
+      }
+
+      input.addEventListener("input", () => {
+        const url = new URL(window.location.href);
+        if (input.value) {
+          url.searchParams.set("q", input.value);
+        } else {
+          url.searchParams.delete("q");
+        }
+        window.history.replaceState(null, "", url);
+        render(input.value);
+      });
+    })
+    .catch(() => {
+      // Keep the full list if the index can't be loaded
+    });
+
+  form.addEventListener("submit", (e) => {
+    e.preventDefault();
+    render(input.value);
+  });
+});
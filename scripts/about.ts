@@ -0,0 +1,54 @@
+import { EmissionsModel, SizeReport, formatAmount } from "../utils";
+
+// Directory of the page about the site's weight and footprint. Not "about",
+// which the channel has a block of its own for.
+export const ABOUT_DIR = "about-this-site";
+
+/**
+ * The weight and footprint of the site, formatted for the about page
+ */
+export interface SiteFootprint {
+  pageCount: number;
+  totalSize: string;
+  averageSize: string;
+  totalEnergy: string;
+  totalCo2e: string;
+  averageEnergy: string;
+  averageCo2e: string;
+  heaviestPage?: { path: string; size: string };
+  // Pages whose size includes the sizes Arena gives for external images
+  estimatedPages: number;
+  // External images of unknown size, which no size includes
+  unmeasuredImages: number;
+  model: EmissionsModel;
+}
+
+function formatKB(bytes: number): string {
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * Summarises the size report of the site for the about page
+ * @param report Size report of the other pages
+ * @returns Totals and averages of size, energy and emissions
+ */
+export function getSiteFootprint(report: SizeReport): SiteFootprint {
+  const { totalEmissions, averageEmissions } = report;
+  const heaviest = report.pages[0];
+
+  return {
+    pageCount: report.pageCount,
+    totalSize: formatKB(report.totalSize),
+    averageSize: formatKB(report.averageSize),
+    totalEnergy: formatAmount(totalEmissions.energy),
+    totalCo2e: formatAmount(totalEmissions.co2e),
+    averageEnergy: formatAmount(averageEmissions.energy),
+    averageCo2e: formatAmount(averageEmissions.co2e),
+    heaviestPage: heaviest
+      ? { path: heaviest.page, size: formatKB(heaviest.size) }
+      : undefined,
+    estimatedPages: report.estimatedPages,
+    unmeasuredImages: report.unmeasured.length,
+    model: report.emissionsModel,
+  };
+}
@@ -1,15 +1,43 @@
 import Arena from "are.na";
 import { ArenaChannel, ArenaItem } from "../types/arena-types";
-import { generateSlug } from "../utils";
+import { SlugOptions } from "../utils";
+import { ArenaCache } from "./cache";
+import { allocateSlugs } from "./slug";
+
+// Number of blocks requested per page from the Arena API
+const PER_PAGE = 100;
+
+interface ArenaServiceOptions {
+  // Snapshot cache written after every successful fetch
+  cache?: ArenaCache;
+  // Build from the cached snapshot without touching the network
+  offline?: boolean;
+  // How many levels of connected channels to fetch as sections (0 disables)
+  maxDepth?: number;
+  // Channels fetched so far in this run, shared by the sites built in it
+  fetched?: Map<string, Promise<ArenaChannel>>;
+}
 
 // Arena API service
 export class ArenaService {
   private channelSlug: string;
   private accessToken: string;
+  private cache?: ArenaCache;
+  private offline: boolean;
+  private maxDepth: number;
+  private fetched?: Map<string, Promise<ArenaChannel>>;
 
-  constructor(accessToken: string, channelSlug: string) {
+  constructor(
+    accessToken: string,
+    channelSlug: string,
+    options: ArenaServiceOptions = {}
+  ) {
     this.channelSlug = channelSlug;
     this.accessToken = accessToken;
+    this.cache = options.cache;
+    this.offline = options.offline ?? false;
+    this.maxDepth = options.maxDepth ?? 1;
+    this.fetched = options.fetched;
   }
 
   /**
@@ -17,24 +45,56 @@ export class ArenaService {
    * @returns Promise resolving to ArenaChannel data
    */
   async fetchChannelData(): Promise<ArenaChannel> {
-    const timestamp = Date.now();
+    if (this.offline) {
+      return this.loadCachedChannelData();
+    }
 
-    try {
-      console.log(`Fetching fresh Arena data: ${new Date().toISOString()}`);
+    console.log(`Fetching fresh Arena data: ${new Date().toISOString()}`);
 
+    const chan = await this.fetchChannel(this.channelSlug);
+    console.log(`Last updated: ${chan.updated_at || "Unknown"}`);
+
+    // Pull in connected channels so they can be built as sections
+    await this.fetchSections(chan, 1, new Set([chan.slug]));
+
+    this.cache?.save(chan);
+    return chan;
+  }
+
+  /**
+   * Fetches a single channel, once per run however many sites use it
+   * @param slug Slug of the channel to fetch
+   * @returns Promise resolving to ArenaChannel data
+   */
+  private fetchChannel(slug: string): Promise<ArenaChannel> {
+    const fetched = this.fetched?.get(slug);
+    if (fetched) return fetched;
+
+    const request = this.requestChannel(slug);
+    this.fetched?.set(slug, request);
+    return request;
+  }
+
+  /**
+   * Requests a single channel, falling back to a direct API request
+   * @param slug Slug of the channel to fetch
+   * @returns Promise resolving to ArenaChannel data
+   */
+  private async requestChannel(slug: string): Promise<ArenaChannel> {
+    try {
       // Use the official Arena client - it handles API calls properly
       const arena = new Arena({ accessToken: this.accessToken });
 
       // The Arena API doesn't respect cache-control headers the way you're trying to use them
       // Instead, just fetch directly - the API always returns fresh data
-      const chan = (await arena
-        .channel(this.channelSlug)
-        .get()) as ArenaChannel;
+      const chan = await this.fetchAllPages(
+        async (page, per) =>
+          (await arena.channel(slug).get({ page, per })) as ArenaChannel
+      );
 
       console.log(
         `Successfully fetched ${chan.contents?.length || 0} items from Arena`
       );
-      console.log(`Last updated: ${chan.updated_at || "Unknown"}`);
 
       return chan;
     } catch (err) {
@@ -42,23 +102,26 @@ export class ArenaService {
 
       // Try one more time with a direct fetch as fallback
       try {
-        const url = `https://api.are.na/v2/channels/${this.channelSlug}`;
-
-        const response = await fetch(url, {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${this.accessToken}`,
-            "Content-Type": "application/json",
-          },
-        });
+        const chan = await this.fetchAllPages(async (page, per) => {
+          const url = `https://api.are.na/v2/channels/${slug}?page=${page}&per=${per}`;
+
+          const response = await fetch(url, {
+            method: "GET",
+            headers: {
+              Authorization: `Bearer ${this.accessToken}`,
+              "Content-Type": "application/json",
+            },
+          });
 
-        if (!response.ok) {
-          throw new Error(
-            `Arena API responded with status: ${response.status}`
-          );
-        }
+          if (!response.ok) {
+            throw new Error(
+              `Arena API responded with status: ${response.status}`
+            );
+          }
+
+          return (await response.json()) as ArenaChannel;
+        });
 
-        const chan = (await response.json()) as ArenaChannel;
         console.log(`Fallback successful: ${chan.contents?.length || 0} items`);
         return chan;
       } catch (fallbackErr) {
@@ -73,45 +136,131 @@ export class ArenaService {
   }
 
   /**
-   * Creates a mapping of slugs to Arena items
-   * @param channel The Arena channel data
-   * @returns Map of slugs to ArenaItems
+   * Fetches the contents of Channel blocks and attaches them as sections
+   * @param channel Channel whose Channel blocks should be expanded
+   * @param depth Nesting level of the sections being fetched
+   * @param visited Slugs of channels already fetched, to avoid cycles
    */
-  createSlugMap(channel: ArenaChannel): Map<string, ArenaItem> {
-    const slugMap = new Map<string, ArenaItem>();
+  private async fetchSections(
+    channel: ArenaChannel,
+    depth: number,
+    visited: Set<string>
+  ): Promise<void> {
+    if (depth > this.maxDepth) return;
 
-    if (!channel.contents || !Array.isArray(channel.contents)) {
-      console.warn("No contents found in channel");
-      return slugMap;
-    }
+    for (const item of channel.contents || []) {
+      if (item.class !== "Channel" || !item.slug || visited.has(item.slug)) {
+        continue;
+      }
 
-    channel.contents.forEach((item: ArenaItem) => {
-      let slugSource = "";
+      visited.add(item.slug);
 
-      // If item has a title and it's not empty
-      if (item.title && item.title.trim() !== "") {
-        slugSource = item.title;
-      }
-      // If no title, fall back to content
-      else if (item.content && item.content.trim() !== "") {
-        slugSource = item.content;
-        console.log(
-          `No title, using content for slug: "${item.content.substring(
-            0,
-            30
-          )}..."`
-        );
+      try {
+        console.log(`Fetching section "${item.title || item.slug}"`);
+        item.section = await this.fetchChannel(item.slug);
+        await this.fetchSections(item.section, depth + 1, visited);
+      } catch (err) {
+        // A missing section shouldn't take the whole site down
+        console.warn(`Skipping section "${item.slug}":`, err);
       }
-      // Last resort - use ID with untitled prefix
-      else {
-        slugSource = `untitled-${item.id}`;
-        console.log(`No title or content, using ID for slug: "${slugSource}"`);
+    }
+  }
+
+  /**
+   * Loads channel data from the cached snapshot instead of the Arena API
+   * @returns ArenaChannel data from the snapshot
+   */
+  private loadCachedChannelData(): ArenaChannel {
+    const snapshot = this.cache?.load();
+
+    if (!snapshot || !snapshot.channel) {
+      throw new Error("Offline build requested but no Arena snapshot found");
+    }
+
+    const chan = snapshot.channel;
+
+    if (chan.slug && chan.slug !== this.channelSlug) {
+      console.warn(
+        `Snapshot is for channel "${chan.slug}", not "${this.channelSlug}"`
+      );
+    }
+
+    if (ArenaCache.hashChannel(chan) !== snapshot.contentHash) {
+      console.warn(
+        "Snapshot does not match its recorded hash (edited by hand or written by an older build)"
+      );
+    }
+
+    console.log(
+      `Offline build: using ${chan.contents?.length || 0} items from snapshot taken ${snapshot.lastChecked}`
+    );
+
+    return chan;
+  }
+
+  /**
+   * Walks every page of the channel and merges the contents in channel order
+   * @param fetchPage Function fetching a single page of the channel
+   * @returns Channel data with the contents of all pages
+   */
+  private async fetchAllPages(
+    fetchPage: (page: number, per: number) => Promise<ArenaChannel>
+  ): Promise<ArenaChannel> {
+    const firstPage = await fetchPage(1, PER_PAGE);
+    const contents: ArenaItem[] = [...(firstPage.contents || [])];
+
+    // The API may cap `per`, so trust the page size it reports
+    const per = firstPage.per || PER_PAGE;
+    const totalPages = Math.max(1, Math.ceil((firstPage.length || 0) / per));
+
+    for (let page = 2; page <= totalPages; page++) {
+      console.log(`Fetching page ${page} of ${totalPages}`);
+      const nextPage = await fetchPage(page, per);
+
+      if (!nextPage.contents || nextPage.contents.length === 0) {
+        break;
       }
 
-      const slug = generateSlug(slugSource);
-      slugMap.set(slug, item);
+      contents.push(...nextPage.contents);
+    }
+
+    // Blocks can shift between pages if the channel changes mid-fetch
+    const seen = new Set<number>();
+    const merged = contents.filter((item) => {
+      if (seen.has(item.id)) return false;
+      seen.add(item.id);
+      return true;
     });
 
+    if (
+      typeof firstPage.length === "number" &&
+      merged.length !== firstPage.length
+    ) {
+      console.warn(
+        `Fetched ${merged.length} items but channel reports ${firstPage.length}`
+      );
+    }
+
+    return { ...firstPage, contents: merged };
+  }
+
+  /**
+   * Creates a mapping of slugs to Arena items
+   * @param channel The Arena channel data
+   * @param slugOptions Options controlling how slugs are generated
+   * @returns Map of slugs to ArenaItems
+   */
+  createSlugMap(
+    channel: ArenaChannel,
+    slugOptions: SlugOptions = {}
+  ): Map<string, ArenaItem> {
+    if (!channel.contents || !Array.isArray(channel.contents)) {
+      console.warn("No contents found in channel");
+      return new Map<string, ArenaItem>();
+    }
+
+    const slugMap = allocateSlugs(channel, slugOptions);
+
     console.log(`Created slug map with ${slugMap.size} entries`);
     return slugMap;
   }
@@ -0,0 +1,73 @@
+import { ArenaItem } from "../types/arena-types";
+import { getAuthorSlug, parseItemMetadata } from "../utils";
+
+// Directory the author pages are generated in
+export const AUTHORS_DIR = "authors";
+
+/**
+ * An author, the blocks they wrote and their bio
+ */
+export interface AuthorEntry {
+  name: string;
+  slug: string;
+  // Slugs of the author's blocks, mapped to the blocks
+  items: Map<string, ArenaItem>;
+  // Block with a "Bio: <name>" field, whose content is shown as the bio
+  bio?: ArenaItem;
+}
+
+/**
+ * Collects the authors of every block in the slug map, along with the blocks
+ * marked as their bio
+ * @param slugMap Map of slugs to ArenaItems
+ * @returns Authors sorted by name
+ */
+export function collectAuthors(
+  slugMap: Map<string, ArenaItem>,
+): AuthorEntry[] {
+  const authors = new Map<string, AuthorEntry>();
+
+  const getAuthor = (name: string): AuthorEntry => {
+    const slug = getAuthorSlug(name);
+    if (!authors.has(slug)) {
+      authors.set(slug, { name, slug, items: new Map() });
+    }
+    return authors.get(slug)!;
+  };
+
+  for (const [slug, item] of slugMap.entries()) {
+    const metadata = parseItemMetadata(item.description);
+
+    for (const name of metadata.authors) {
+      getAuthor(name).items.set(slug, item);
+    }
+
+    // Bio blocks are matched to authors by name, like the Author field
+    if (metadata.fields.bio) {
+      const author = getAuthor(metadata.fields.bio);
+      if (author.bio) {
+        console.warn(
+          `Several bio blocks for ${author.name} (${author.bio.id}, ${item.id}), using ${author.bio.id}`,
+        );
+      } else {
+        author.bio = item;
+      }
+    }
+  }
+
+  return Array.from(authors.values()).sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+}
+
+/**
+ * Lists the slugs of the author pages, for the typed paths module
+ * @param authors Authors of the site
+ * @returns Slugs of the authors index and every author page
+ */
+export function getAuthorPageSlugs(authors: AuthorEntry[]): string[] {
+  return [
+    AUTHORS_DIR,
+    ...authors.map((author) => `${AUTHORS_DIR}/${author.slug}`),
+  ];
+}
@@ -0,0 +1,160 @@
+import fs from "fs";
+import crypto from "crypto";
+import { ArenaCacheSnapshot, ArenaChannel } from "../types/arena-types";
+
+/**
+ * Reads and writes snapshots of Arena channel data for offline builds
+ */
+export class ArenaCache {
+  private cacheFile: string;
+
+  constructor(cacheFile: string) {
+    this.cacheFile = cacheFile;
+  }
+
+  /**
+   * Computes a hash of the whole channel, its title, settings and contents,
+   * to detect changes between fetches
+   * @param channel The Arena channel data
+   * @returns Hex encoded SHA-256 hash
+   */
+  static hashChannel(channel: ArenaChannel): string {
+    return crypto
+      .createHash("sha256")
+      .update(JSON.stringify(channel))
+      .digest("hex");
+  }
+
+  /**
+   * Saves a snapshot of the channel data to the cache file
+   * @param channel The Arena channel data
+   */
+  save(channel: ArenaChannel): void {
+    try {
+      const contentHash = ArenaCache.hashChannel(channel);
+      const previous = this.load();
+
+      if (previous && previous.contentHash === contentHash) {
+        console.log("Channel unchanged since last snapshot");
+      }
+
+      const snapshot: ArenaCacheSnapshot = {
+        channel,
+        lastChecked: new Date().toISOString(),
+        contentHash,
+      };
+
+      fs.writeFileSync(
+        this.cacheFile,
+        JSON.stringify(snapshot, null, 2),
+        "utf8",
+      );
+      console.log(`Saved Arena snapshot (${contentHash.substring(0, 12)})`);
+    } catch (err) {
+      console.error("Error saving Arena snapshot:", err);
+    }
+  }
+
+  /**
+   * Loads the snapshot from the cache file
+   * @returns The snapshot, or null if none is available
+   */
+  load(): ArenaCacheSnapshot | null {
+    try {
+      if (!fs.existsSync(this.cacheFile)) {
+        return null;
+      }
+
+      const fileContent = fs.readFileSync(this.cacheFile, "utf8");
+      return JSON.parse(fileContent) as ArenaCacheSnapshot;
+    } catch (err) {
+      console.error("Error loading Arena snapshot:", err);
+      return null;
+    }
+  }
+}
+
+/**
+ * A measured size of an external resource
+ */
+export interface SizeCacheEntry {
+  size: number;
+  measuredAt: string;
+}
+
+/**
+ * Remembers the sizes of external resources between builds, so page sizes
+ * don't change with the network and offline builds can use them
+ */
+export class SizeCache {
+  private cacheFile: string;
+  private entries: Record<string, SizeCacheEntry> | undefined;
+  private changed = false;
+
+  constructor(cacheFile: string) {
+    this.cacheFile = cacheFile;
+  }
+
+  /**
+   * Gets the measured size of a resource
+   * @param url URL of the resource
+   * @returns Size in bytes, or undefined if it was never measured
+   */
+  get(url: string): number | undefined {
+    return this.load()[url]?.size;
+  }
+
+  /**
+   * Records the measured size of a resource
+   * @param url URL of the resource
+   * @param size Size in bytes
+   */
+  set(url: string, size: number): void {
+    this.load()[url] = { size, measuredAt: new Date().toISOString() };
+    this.changed = true;
+  }
+
+  /**
+   * Writes the sizes to the cache file if any were added, sorted by URL so
+   * the file only changes where sizes do
+   */
+  save(): void {
+    if (!this.changed) return;
+
+    try {
+      const entries = this.load();
+      const sorted: Record<string, SizeCacheEntry> = {};
+      for (const url of Object.keys(entries).sort()) {
+        sorted[url] = entries[url];
+      }
+
+      fs.writeFileSync(
+        this.cacheFile,
+        JSON.stringify(sorted, null, 2) + "\n",
+        "utf8",
+      );
+      this.changed = false;
+    } catch (err) {
+      console.error("Error saving size cache:", err);
+    }
+  }
+
+  /**
+   * Loads the sizes from the cache file on first use
+   * @returns Sizes by URL
+   */
+  private load(): Record<string, SizeCacheEntry> {
+    if (this.entries) return this.entries;
+
+    this.entries = {};
+    try {
+      if (fs.existsSync(this.cacheFile)) {
+        this.entries = JSON.parse(fs.readFileSync(this.cacheFile, "utf8"));
+      }
+    } catch (err) {
+      console.error("Error loading size cache:", err);
+    }
+
+    return this.entries!;
+  }
+}
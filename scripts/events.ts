@@ -0,0 +1,213 @@
+import { ArenaItem } from "../types/arena-types";
+import {
+  ParsedDate,
+  parseDate,
+  parseDayMonth,
+  parseItemMetadata,
+  parseTimeOn,
+  formatIsoDate,
+  toDate,
+  toZonedDate,
+  CalendarEvent,
+} from "../utils";
+import { SiteConfig, getPageUrl } from "./site-config";
+
+// Directory of the events page
+export const EVENTS_DIR = "events";
+
+// Blocks with this tag and a Date field are events
+export const EVENT_TAG = "event";
+
+// Name of the calendar file of each event, next to its page
+export const EVENT_CALENDAR_FILE = "event.ics";
+
+/**
+ * An event block with its parsed Date, End and Location fields
+ */
+export interface EventEntry {
+  slug: string;
+  item: ArenaItem;
+  title: string;
+  start: ParsedDate;
+  end?: ParsedDate;
+  location?: string;
+}
+
+/**
+ * Date, end and location of a block, from its description
+ */
+export interface EventDetails {
+  start: ParsedDate;
+  end?: ParsedDate;
+  location?: string;
+}
+
+// A time or a time range, such as "16:00 - 18:00"
+const TIME_RANGE = /(\d{1,2})[:.](\d{2})(?:\s*[-–]\s*(\d{1,2})[:.](\d{2}))?/;
+
+// Events for each slug map, so a build only parses and warns once
+const eventsCache = new WeakMap<Map<string, ArenaItem>, EventEntry[]>();
+
+/**
+ * Reads the Date, End and Location fields of a block. End can be a full
+ * date or just a time on the day the event starts.
+ * @param description The raw description text
+ * @returns Event details, or null without a valid Date field
+ */
+export function parseEventDetails(description?: string): EventDetails | null {
+  const { fields } = parseItemMetadata(description);
+  const start = fields.date ? parseDate(fields.date) : null;
+  if (!start) return null;
+
+  const end = fields.end
+    ? (parseDate(fields.end) ?? parseTimeOn(fields.end, start) ?? undefined)
+    : undefined;
+
+  return { start, end, location: fields.location };
+}
+
+/**
+ * Finds the date and times of an event written as prose in its description,
+ * such as "Saturday **19th of July**" and "16:00 - 18:00" on the next line,
+ * for blocks from before events had a Date field. A date without a year is
+ * taken to be the one closest to when the block was added.
+ * @param description The raw description text
+ * @param createdAt When the block was added, as an ISO date string
+ * @returns Event details, or null if the description has no date
+ */
+export function findEventDetails(
+  description: string | undefined,
+  createdAt: string,
+): EventDetails | null {
+  // Dates are often in bold or italics
+  const text = (description || "").replace(/[*_]+/g, "");
+  const start =
+    parseDate(text, true) ?? parseDayMonth(text, new Date(createdAt));
+  if (!start) return null;
+  if (start.hour !== undefined) return { start };
+
+  const times = text.match(TIME_RANGE);
+  if (!times) return { start };
+
+  const timed = parseTimeOn(`${times[1]}:${times[2]}`, start) ?? start;
+  const end = times[3]
+    ? (parseTimeOn(`${times[3]}:${times[4]}`, start) ?? undefined)
+    : undefined;
+  return { start: timed, end: timed.hour !== undefined ? end : undefined };
+}
+
+/**
+ * Collects the events of the site, soonest first. Blocks tagged as events
+ * without a Date field have their date read from the description instead;
+ * those without any usable date are left out with a warning.
+ * @param slugMap Map of slugs to ArenaItems
+ * @returns Events sorted by start date
+ */
+export function collectEvents(slugMap: Map<string, ArenaItem>): EventEntry[] {
+  const cached = eventsCache.get(slugMap);
+  if (cached) return cached;
+
+  const events: EventEntry[] = [];
+
+  for (const [slug, item] of slugMap.entries()) {
+    const metadata = parseItemMetadata(item.description);
+    if (!metadata.tags.includes(EVENT_TAG)) continue;
+
+    const details = metadata.fields.date
+      ? parseEventDetails(item.description)
+      : findEventDetails(item.description, item.created_at);
+    if (!details) {
+      console.warn(
+        metadata.fields.date
+          ? `Event "${slug}" has an unreadable Date: "${metadata.fields.date}", use e.g. "2025-07-19 16:00"`
+          : `Event "${slug}" has no Date field or date in its description, leaving it off the events page`,
+      );
+      continue;
+    }
+
+    if (!metadata.fields.date) {
+      console.log(
+        `Event "${slug}" has no Date field, using "${formatIsoDate(details.start)}" from its description`,
+      );
+    }
+
+    if (metadata.fields.end && !details.end) {
+      console.warn(
+        `Event "${slug}" has an unreadable End: "${metadata.fields.end}"`,
+      );
+    }
+
+    events.push({
+      slug,
+      item,
+      title: item.title || `Untitled #${item.id}`,
+      ...details,
+    });
+  }
+
+  events.sort(
+    (a, b) => toDate(a.start).getTime() - toDate(b.start).getTime(),
+  );
+
+  eventsCache.set(slugMap, events);
+  return events;
+}
+
+/**
+ * Splits events into upcoming and past ones. Events count as upcoming until
+ * they end, or until the end of their day if they have no end time.
+ * @param events Events sorted by start date
+ * @param timeZone Time zone the dates of the events are written in
+ * @param now Time to compare against, usually the build time
+ * @returns Upcoming events soonest first, past events latest first
+ */
+export function splitEvents(
+  events: EventEntry[],
+  timeZone: string,
+  now: Date = new Date(),
+): { upcoming: EventEntry[]; past: EventEntry[] } {
+  const upcoming: EventEntry[] = [];
+  const past: EventEntry[] = [];
+
+  for (const event of events) {
+    // Timed events without an end are over at the end of their day
+    const over =
+      event.end || event.start.hour === undefined
+        ? toZonedDate(event.end ?? event.start, timeZone, true)
+        : toZonedDate({ ...event.start, hour: undefined }, timeZone, true);
+
+    if (over.getTime() >= now.getTime()) {
+      upcoming.push(event);
+    } else {
+      past.push(event);
+    }
+  }
+
+  return { upcoming, past: past.reverse() };
+}
+
+/**
+ * Converts an event to the form written to .ics files
+ * @param event Event block
+ * @param site Site config, for absolute links and unique ids
+ * @returns Calendar event
+ */
+export function toCalendarEvent(
+  event: EventEntry,
+  site: SiteConfig,
+): CalendarEvent {
+  const url = getPageUrl(site, event.slug);
+
+  return {
+    uid: `arena-block-${event.item.id}@${new URL(site.url).hostname}`,
+    summary: event.title,
+    start: event.start,
+    end: event.end,
+    location: event.location,
+    url,
+    description: event.item.content
+      ? `${event.item.content.trim()}\n\n${url}`
+      : url,
+    updatedAt: event.item.updated_at,
+  };
+}
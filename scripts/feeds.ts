@@ -0,0 +1,267 @@
+import { ArenaChannel, ArenaItem } from "../types/arena-types";
+import {
+  FeedAuthor,
+  FeedEntry,
+  FeedInfo,
+  absolutiseUrls,
+  getAuthorSlug,
+  parseItemMetadata,
+  processItemContent,
+} from "../utils";
+import { SiteConfig, getPageUrl } from "./site-config";
+import { TAGS_DIR, collectTags } from "./tags";
+import { AUTHORS_DIR, collectAuthors } from "./authors";
+
+// Names of the feed files in each format, next to the page they belong to
+export const FEED_FILES = {
+  rss: "rss.xml",
+  atom: "atom.xml",
+  json: "feed.json",
+};
+
+// Name of the OPML file listing every feed, at the root of the site
+export const OPML_FILE = "feeds.opml";
+
+// Media types of the feed formats, for alternate links
+const FEED_TYPES = {
+  rss: "application/rss+xml",
+  atom: "application/atom+xml",
+  json: "application/feed+json",
+};
+
+// Names of the feed formats in alternate link titles
+const FEED_FORMAT_NAMES = {
+  rss: "RSS",
+  atom: "Atom",
+  json: "JSON Feed",
+};
+
+/**
+ * One feed of the site, written in every format to the directory of the
+ * page it belongs to
+ */
+export interface SiteFeed {
+  // Directory of the page, "" for the site's main feed
+  dir: string;
+  info: FeedInfo;
+  entries: FeedEntry[];
+}
+
+/**
+ * Alternate link advertising a feed in the head of a page
+ */
+export interface FeedLink {
+  type: string;
+  title: string;
+  href: string;
+}
+
+/**
+ * Gets the stable id of a block's feed entries. It is the block's address
+ * on Are.na, so it survives renamed slugs and moves between sites.
+ * @param item Arena item
+ * @returns Id of the entry
+ */
+export function getFeedEntryId(item: ArenaItem): string {
+  return `https://www.are.na/block/${item.id}`;
+}
+
+/**
+ * Lists the authors of a block: its Author fields, or else the Are.na user
+ * who added it
+ * @param item Arena item
+ * @param site Site config, authors link to their pages if those exist
+ * @returns Authors of the block
+ */
+function getEntryAuthors(item: ArenaItem, site: SiteConfig): FeedAuthor[] {
+  const { authors } = parseItemMetadata(item.description);
+
+  if (authors.length > 0) {
+    return authors.map((name) => ({
+      name,
+      url: site.features.authors
+        ? getPageUrl(site, `${AUTHORS_DIR}/${getAuthorSlug(name)}`)
+        : undefined,
+    }));
+  }
+
+  const user = item.user;
+  const name = user
+    ? `${user.first_name} ${user.last_name}`.trim() || user.username
+    : "";
+  return name ? [{ name }] : [];
+}
+
+/**
+ * Builds the feed entries of the site's blocks, newest first, with the same
+ * rendered content as their pages. Sections (Channel blocks) are left out,
+ * and a block listed under several slugs only gets one entry.
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config, for absolute URLs and the block renderers
+ * @returns Feed entries sorted by last update
+ */
+export async function buildFeedEntries(
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+): Promise<FeedEntry[]> {
+  const entries: FeedEntry[] = [];
+  const seen = new Set<number>();
+
+  for (const [slug, item] of slugMap.entries()) {
+    if (item.class === "Channel" || seen.has(item.id)) continue;
+    seen.add(item.id);
+
+    const html = await processItemContent(item, { slug, slugMap, site });
+
+    entries.push({
+      id: getFeedEntryId(item),
+      url: getPageUrl(site, slug),
+      title: item.title || `Untitled #${item.id}`,
+      html: absolutiseUrls(html, site.url),
+      published: item.created_at,
+      updated: item.updated_at,
+      authors: getEntryAuthors(item, site),
+      categories: parseItemMetadata(item.description).tags,
+      image: item.image?.display?.url || item.image?.original?.url,
+    });
+  }
+
+  return entries.sort(
+    (a, b) => new Date(b.updated).getTime() - new Date(a.updated).getTime(),
+  );
+}
+
+/**
+ * Gets the root-relative path of a feed file
+ * @param dir Directory of the page the feed belongs to, "" for the site
+ * @param file Name of the feed file
+ * @returns Path of the feed file
+ */
+function getFeedPath(dir: string, file: string): string {
+  return dir ? `/${dir}/${file}` : `/${file}`;
+}
+
+/**
+ * Describes a feed of the site
+ * @param channelData Arena channel data
+ * @param site Site config
+ * @param entries Entries of the feed, newest first
+ * @param dir Directory of the page the feed belongs to, "" for the site
+ * @param title Title of the feed, defaults to the channel's
+ * @param description Description of the feed, defaults to the site's
+ * @returns Feed info for the generators in utils/feed.ts
+ */
+export function getFeedInfo(
+  channelData: ArenaChannel,
+  site: SiteConfig,
+  entries: FeedEntry[],
+  dir: string = "",
+  title: string = channelData.title,
+  description: string = site.description,
+): FeedInfo {
+  return {
+    title,
+    description,
+    language: site.language,
+    homePageUrl: getPageUrl(site, dir),
+    rssUrl: `${site.url}${getFeedPath(dir, FEED_FILES.rss)}`,
+    atomUrl: `${site.url}${getFeedPath(dir, FEED_FILES.atom)}`,
+    jsonUrl: `${site.url}${getFeedPath(dir, FEED_FILES.json)}`,
+    updated: entries[0]?.updated ?? channelData.updated_at,
+  };
+}
+
+/**
+ * Picks the entries of some of the blocks, keeping their order
+ * @param entries Entries of every block, newest first
+ * @param items Blocks to keep, by slug
+ * @returns Entries of the given blocks
+ */
+function filterEntries(
+  entries: FeedEntry[],
+  items: Map<string, ArenaItem>,
+): FeedEntry[] {
+  const ids = new Set(Array.from(items.values()).map(getFeedEntryId));
+  return entries.filter((entry) => ids.has(entry.id));
+}
+
+/**
+ * Collects the feeds of the site: the main feed of every block, and a feed
+ * per tag and per author next to their pages when those are generated
+ * @param channelData Arena channel data
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @returns Feeds, the main feed first
+ */
+export async function collectFeeds(
+  channelData: ArenaChannel,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+): Promise<SiteFeed[]> {
+  // Blocks are rendered once and shared by every feed they appear in
+  const entries = await buildFeedEntries(slugMap, site);
+  const feeds: SiteFeed[] = [
+    { dir: "", info: getFeedInfo(channelData, site, entries), entries },
+  ];
+
+  const addFeed = (
+    dir: string,
+    title: string,
+    description: string,
+    items: Map<string, ArenaItem>,
+  ): void => {
+    const feedEntries = filterEntries(entries, items);
+    feeds.push({
+      dir,
+      info: getFeedInfo(
+        channelData,
+        site,
+        feedEntries,
+        dir,
+        title,
+        description,
+      ),
+      entries: feedEntries,
+    });
+  };
+
+  if (site.features.tags) {
+    for (const tag of collectTags(slugMap)) {
+      addFeed(
+        `${TAGS_DIR}/${tag.slug}`,
+        `${channelData.title} | #${tag.name}`,
+        `Blocks tagged #${tag.name} on ${channelData.title}`,
+        tag.items,
+      );
+    }
+  }
+
+  if (site.features.authors) {
+    for (const author of collectAuthors(slugMap)) {
+      addFeed(
+        `${AUTHORS_DIR}/${author.slug}`,
+        `${channelData.title} | ${author.name}`,
+        `Blocks by ${author.name} on ${channelData.title}`,
+        author.items,
+      );
+    }
+  }
+
+  return feeds;
+}
+
+/**
+ * Lists the alternate links of a feed in every format
+ * @param dir Directory of the page the feed belongs to, "" for the site
+ * @param title Title of the feed
+ * @returns Alternate links for the head of the page
+ */
+export function getFeedLinks(dir: string, title: string): FeedLink[] {
+  return (Object.keys(FEED_FILES) as Array<keyof typeof FEED_FILES>).map(
+    (format) => ({
+      type: FEED_TYPES[format],
+      title: `${title} (${FEED_FORMAT_NAMES[format]})`,
+      href: getFeedPath(dir, FEED_FILES[format]),
+    }),
+  );
+}
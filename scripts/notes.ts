@@ -0,0 +1,124 @@
+import { ArenaItem } from "../types/arena-types";
+import { ParsedDate, parseDate, parseItemMetadata, toDate } from "../utils";
+
+// Directory of the notes archive
+export const NOTES_DIR = "notes";
+
+// Blocks with this tag are session notes
+export const NOTES_TAG = "notes";
+
+/**
+ * A notes block with the date of the session it is about
+ */
+export interface NoteEntry {
+  slug: string;
+  item: ArenaItem;
+  title: string;
+  date: ParsedDate;
+}
+
+/**
+ * Notes of one month, for the archive
+ */
+export interface NotesMonth {
+  year: number;
+  month: number;
+  notes: NoteEntry[];
+}
+
+// Notes for each slug map, so a build only parses and warns once
+const notesCache = new WeakMap<Map<string, ArenaItem>, NoteEntry[]>();
+
+/**
+ * Collects the notes of the site in session order. The session date comes
+ * from a Date field or, failing that, the first date in the title, so
+ * titles like "30/06/2025", "07.07.25" and "Notes for 2025-07-14" all work.
+ * Notes without a date are left out with a warning.
+ * @param slugMap Map of slugs to ArenaItems
+ * @returns Notes sorted by session date, oldest first
+ */
+export function collectNotes(slugMap: Map<string, ArenaItem>): NoteEntry[] {
+  const cached = notesCache.get(slugMap);
+  if (cached) return cached;
+
+  const notes: NoteEntry[] = [];
+
+  for (const [slug, item] of slugMap.entries()) {
+    const metadata = parseItemMetadata(item.description);
+    if (!metadata.tags.includes(NOTES_TAG)) continue;
+
+    const date =
+      (metadata.fields.date ? parseDate(metadata.fields.date) : null) ??
+      parseDate(item.title || "", true);
+
+    if (!date) {
+      console.warn(
+        `Notes "${slug}" have no date in their title or Date field, leaving them out of the notes archive`,
+      );
+      continue;
+    }
+
+    notes.push({
+      slug,
+      item,
+      title: item.title || `Untitled #${item.id}`,
+      date,
+    });
+  }
+
+  notes.sort(
+    (a, b) =>
+      toDate(a.date).getTime() - toDate(b.date).getTime() ||
+      a.item.id - b.item.id,
+  );
+
+  notesCache.set(slugMap, notes);
+  return notes;
+}
+
+/**
+ * Finds the sessions before and after a note
+ * @param notes Notes in session order
+ * @param slug Slug of the note
+ * @returns The previous and next notes, where there are any
+ */
+export function getNoteNeighbours(
+  notes: NoteEntry[],
+  slug: string,
+): { previous?: NoteEntry; next?: NoteEntry } {
+  const index = notes.findIndex((note) => note.slug === slug);
+  if (index === -1) return {};
+
+  return {
+    previous: notes[index - 1],
+    next: notes[index + 1],
+  };
+}
+
+/**
+ * Groups notes by the month of their session, newest month first
+ * @param notes Notes in session order
+ * @returns Months with their notes, newest notes first
+ */
+export function groupNotesByMonth(notes: NoteEntry[]): NotesMonth[] {
+  const months: NotesMonth[] = [];
+
+  for (const note of [...notes].reverse()) {
+    const last = months[months.length - 1];
+    if (
+      last &&
+      last.year === note.date.year &&
+      last.month === note.date.month
+    ) {
+      last.notes.push(note);
+    } else {
+      months.push({
+        year: note.date.year,
+        month: note.date.month,
+        notes: [note],
+      });
+    }
+  }
+
+  return months;
+}
@@ -0,0 +1,224 @@
+import { marked } from "marked";
+import { ArenaChannel, ArenaItem } from "../types/arena-types";
+import {
+  formatIsoDate,
+  getAuthorSlug,
+  getDescriptionText,
+  parseItemMetadata,
+  stripHtml,
+} from "../utils";
+import { SiteConfig, getPageUrl } from "./site-config";
+import { collectEvents } from "./events";
+import { collectNotes } from "./notes";
+import { AUTHORS_DIR } from "./authors";
+import { isIndexable } from "./sitemap";
+
+// Meta descriptions longer than this are cut off by most previews
+const DESCRIPTION_LENGTH = 160;
+
+// Shown in link previews of pages without an image of their own
+const DEFAULT_IMAGE = "/favicon/android-chrome-512x512.png";
+
+/**
+ * Metadata for the head of a page: canonical URL, description, Open Graph
+ * and Twitter tags, and JSON-LD. Rendered by views/partials/page-meta.html.
+ */
+export interface PageMeta {
+  title: string;
+  siteName: string;
+  description: string;
+  // Canonical URL, empty for pages that shouldn't have one like the 404 page
+  url: string;
+  image: string;
+  // Whether the image is the page's own, shown large in link previews
+  largeImage: boolean;
+  type: "website" | "article";
+  noindex: boolean;
+  // Serialised JSON-LD, safe to put in a script element
+  jsonLd: string;
+}
+
+/**
+ * Turns markdown into plain text cut to the length of a meta description
+ * @param markdown Markdown text
+ * @returns Plain text, shortened at a word boundary
+ */
+export function summariseText(markdown: string): string {
+  const text = stripHtml(marked.parse(markdown || "") as string);
+  if (text.length <= DESCRIPTION_LENGTH) return text;
+
+  const cut = text.substring(0, DESCRIPTION_LENGTH - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  // Only break at a word if that doesn't throw away most of the text
+  const shortened =
+    lastSpace > DESCRIPTION_LENGTH / 2 ? cut.substring(0, lastSpace) : cut;
+  return `${shortened.trim()}…`;
+}
+
+/**
+ * Serialises JSON-LD so it can't end the script element it is placed in
+ * @param data Structured data
+ * @returns JSON with "<" escaped
+ */
+function serialiseJsonLd(data: Record<string, unknown>): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
+
+/**
+ * Builds the metadata of a page without a block of its own
+ * @param channelData Arena channel data
+ * @param site Site config
+ * @param title Title of the page
+ * @param slug Slug of the page, "" for the home page
+ * @param description Description of the page, defaults to the one in the
+ * site config or else the channel's
+ * @returns Page metadata
+ */
+export function getPageMeta(
+  channelData: ArenaChannel,
+  site: SiteConfig,
+  title: string,
+  slug: string,
+  description: string = "",
+): PageMeta {
+  return {
+    title,
+    siteName: channelData.title,
+    description:
+      description ||
+      site.description ||
+      summariseText(channelData.metadata?.description || ""),
+    url: getPageUrl(site, slug),
+    image: `${site.url}${DEFAULT_IMAGE}`,
+    largeImage: false,
+    type: "website",
+    noindex: !isIndexable(channelData),
+    jsonLd: "",
+  };
+}
+
+/**
+ * Builds the metadata of the home page, describing the site as a whole
+ * @param channelData Arena channel data
+ * @param site Site config
+ * @returns Page metadata
+ */
+export function getHomeMeta(
+  channelData: ArenaChannel,
+  site: SiteConfig,
+): PageMeta {
+  const meta = getPageMeta(channelData, site, channelData.title, "");
+
+  meta.jsonLd = serialiseJsonLd({
+    "@context": "https://schema.org",
+    "@type": "WebSite",
+    name: channelData.title,
+    url: meta.url,
+    description: meta.description || undefined,
+  });
+
+  return meta;
+}
+
+/**
+ * Builds the metadata of the 404 page, which must not be indexed
+ * @param channelData Arena channel data
+ * @param site Site config
+ * @returns Page metadata
+ */
+export function get404Meta(
+  channelData: ArenaChannel,
+  site: SiteConfig,
+): PageMeta {
+  return {
+    ...getPageMeta(channelData, site, "Page not found", ""),
+    url: "",
+    noindex: true,
+  };
+}
+
+/**
+ * Builds the metadata of a block's page. Notes are described as articles
+ * and events as events, with their dates and location.
+ * @param channelData Arena channel data
+ * @param item Arena item
+ * @param slug Slug of the item
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @returns Page metadata
+ */
+export function getItemMeta(
+  channelData: ArenaChannel,
+  item: ArenaItem,
+  slug: string,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+): PageMeta {
+  const title = item.title || `Untitled #${item.id}`;
+  const description =
+    summariseText(getDescriptionText(item.description)) ||
+    summariseText(item.content || "");
+
+  const meta = getPageMeta(channelData, site, title, slug, description);
+  const image =
+    item.image?.large?.url ||
+    item.image?.display?.url ||
+    item.image?.original?.url;
+  if (image) {
+    meta.image = image;
+    meta.largeImage = true;
+  }
+
+  const publisher = {
+    "@type": "Organization",
+    name: channelData.title,
+    url: getPageUrl(site, ""),
+  };
+  const authors = parseItemMetadata(item.description).authors.map((name) => ({
+    "@type": "Person",
+    name,
+    url: getPageUrl(site, `${AUTHORS_DIR}/${getAuthorSlug(name)}`),
+  }));
+
+  const event = collectEvents(slugMap).find(
+    (entry) => entry.item.id === item.id && entry.slug === slug,
+  );
+  const note = collectNotes(slugMap).find(
+    (entry) => entry.item.id === item.id && entry.slug === slug,
+  );
+
+  if (event) {
+    meta.jsonLd = serialiseJsonLd({
+      "@context": "https://schema.org",
+      "@type": "Event",
+      name: title,
+      description: meta.description || undefined,
+      url: meta.url,
+      image: image || undefined,
+      startDate: formatIsoDate(event.start),
+      endDate: event.end ? formatIsoDate(event.end) : undefined,
+      eventStatus: "https://schema.org/EventScheduled",
+      eventAttendanceMode: "https://schema.org/OfflineEventAttendanceMode",
+      location: event.location
+        ? { "@type": "Place", name: event.location, address: event.location }
+        : undefined,
+      organizer: publisher,
+    });
+  } else if (note) {
+    meta.type = "article";
+    meta.jsonLd = serialiseJsonLd({
+      "@context": "https://schema.org",
+      "@type": "Article",
+      headline: title,
+      description: meta.description || undefined,
+      url: meta.url,
+      image: image || undefined,
+      datePublished: formatIsoDate(note.date),
+      dateModified: item.updated_at,
+      author: authors.length > 0 ? authors : publisher,
+      publisher,
+    });
+  }
+
+  return meta;
+}
@@ -0,0 +1,57 @@
+import fs from "fs";
+import { ArenaItem } from "../types/arena-types";
+
+/**
+ * Generates the source of the typed paths module from the slug map
+ * @param slugMap Map of slugs to ArenaItems
+ * @param extraSlugs Slugs of generated pages that aren't blocks
+ * @returns TypeScript source for types/paths.ts
+ */
+export function generatePathsModule(
+  slugMap: Map<string, ArenaItem>,
+  extraSlugs: string[] = [],
+): string {
+  // Sort so the file only changes when pages are added or removed
+  const slugs = Array.from(new Set([...slugMap.keys(), ...extraSlugs])).sort();
+
+  const entries = slugs
+    .map((slug) => `  ${JSON.stringify(slug)}: ${JSON.stringify(`/${slug}`)},`)
+    .join("\n");
+
+  return `// types/paths.ts
+// Auto-generated from Are.na channel by the build - do not edit by hand
+export const PATHS = {
+${entries}
+} as const;
+
+export type PagePath = keyof typeof PATHS;
+`;
+}
+
+/**
+ * Writes the typed paths module, leaving it untouched if nothing changed
+ * @param slugMap Map of slugs to ArenaItems
+ * @param outputFile Path of the module to write
+ * @param extraSlugs Slugs of generated pages that aren't blocks
+ */
+export function savePathsModule(
+  slugMap: Map<string, ArenaItem>,
+  outputFile: string,
+  extraSlugs: string[] = [],
+): void {
+  try {
+    const source = generatePathsModule(slugMap, extraSlugs);
+
+    if (
+      fs.existsSync(outputFile) &&
+      fs.readFileSync(outputFile, "utf8") === source
+    ) {
+      return;
+    }
+
+    fs.writeFileSync(outputFile, source, "utf8");
+    console.log(`Updated page paths in ${outputFile}`);
+  } catch (err) {
+    console.error("Error saving page paths:", err);
+  }
+}
@@ -0,0 +1,81 @@
+import { ArenaItem } from "../types/arena-types";
+import { parseItemMetadata, processItemContent, stripHtml } from "../utils";
+import { SiteConfig } from "./site-config";
+
+// Directory of the search page and its index
+export const SEARCH_DIR = "search";
+
+// Name of the index file, next to the search page
+export const SEARCH_INDEX_FILE = "index.json";
+
+// Fields of each entry, in the order they are written
+const SEARCH_FIELDS = ["slug", "title", "tags", "authors", "text"] as const;
+
+/**
+ * One block in the search index
+ */
+export interface SearchEntry {
+  slug: string;
+  title: string;
+  tags: string[];
+  authors: string[];
+  text: string;
+}
+
+/**
+ * The search index as written to disk. Entries are arrays in the order of
+ * `fields` rather than objects, which keeps the file small.
+ */
+export interface SearchIndex {
+  fields: typeof SEARCH_FIELDS;
+  items: Array<[string, string, string[], string[], string]>;
+}
+
+/**
+ * Builds the search entries of every block, using the same rendered content
+ * as the block's page with the markup stripped
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config passed to the block renderers
+ * @returns Search entries in slug map order
+ */
+export async function buildSearchEntries(
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+): Promise<SearchEntry[]> {
+  const entries: SearchEntry[] = [];
+
+  for (const [slug, item] of slugMap.entries()) {
+    const metadata = parseItemMetadata(item.description);
+    const html = await processItemContent(item, { slug, slugMap, site });
+
+    entries.push({
+      slug,
+      title: item.title || `Untitled #${item.id}`,
+      tags: metadata.tags,
+      authors: metadata.authors,
+      text: stripHtml(html),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Serialises search entries into the compact index format
+ * @param entries Search entries
+ * @returns JSON of the search index
+ */
+export function serialiseSearchIndex(entries: SearchEntry[]): string {
+  const index: SearchIndex = {
+    fields: SEARCH_FIELDS,
+    items: entries.map((entry) => [
+      entry.slug,
+      entry.title,
+      entry.tags,
+      entry.authors,
+      entry.text,
+    ]),
+  };
+
+  return JSON.stringify(index);
+}
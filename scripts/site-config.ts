@@ -0,0 +1,579 @@
+import fs from "fs";
+import path from "path";
+import {
+  DEFAULT_IFRAME_HOSTS,
+  getConfiguredIframeHosts,
+} from "../utils/sanitize";
+import { DEFAULT_EMISSIONS_MODEL, EmissionsModel } from "../utils/emissions";
+
+/**
+ * A link in the site header
+ */
+export interface HeaderLink {
+  label: string;
+  url: string;
+}
+
+/**
+ * The heading of a sidebar. On the home page, clicking it moves the blocks
+ * with its tag into the sidebar.
+ */
+export interface SidebarDefinition {
+  title: string;
+  link: string;
+  tag?: string;
+}
+
+/**
+ * Parts of the site that can be switched off
+ */
+export interface SiteFeatures {
+  tags: boolean;
+  authors: boolean;
+  events: boolean;
+  notes: boolean;
+  search: boolean;
+  rss: boolean;
+  sitemap: boolean;
+  about: boolean;
+}
+
+/**
+ * Page-weight budgets in KB of transferred data, checked when the pages are
+ * measured. Leaving a budget out leaves that weight unchecked.
+ */
+export interface SizeBudgets {
+  // Weight of any one page, with everything it loads
+  page?: number;
+  // Weight of one type of resource on any one page, e.g. { "Image": 200 }
+  types?: Record<string, number>;
+  // Combined weight of every page of the site
+  total?: number;
+}
+
+// Resource types measured by utils/size.ts, which budgets can be set for
+export const RESOURCE_TYPES = [
+  "HTML",
+  "CSS",
+  "JS",
+  "Image",
+  "Favicon",
+  "Metadata",
+  "HeadResource",
+];
+
+/**
+ * Settings for the site as a whole, passed to every render function and to
+ * block renderers
+ */
+export interface SiteConfig {
+  // Public URL of the site, without a trailing slash
+  url: string;
+  // Description used by feeds and pages without one of their own
+  description: string;
+  // Language of the pages, as a BCP 47 tag
+  language: string;
+  // IANA time zone the times of events are written in, e.g. "Europe/London"
+  timeZone: string;
+  // Absolute path of the directory the site is built into
+  outputDir: string;
+  headerLinks: HeaderLink[];
+  sidebars: {
+    left?: SidebarDefinition;
+    right?: SidebarDefinition;
+  };
+  features: SiteFeatures;
+  // Hosts embeds (iframes) are allowed from
+  embedHosts: string[];
+  // Paths robots.txt asks crawlers to stay out of
+  robotsDisallow: string[];
+  budgets: SizeBudgets;
+  // Model behind the energy and emissions estimates of each page view
+  emissions: EmissionsModel;
+  // Directory of templates used instead of the ones with the same path in
+  // views/, so a site can change some templates and share the rest
+  templates?: string;
+  // Slug of the Are.na channel, CHANNEL_SLUG unless the site is one of
+  // several channels in the config file
+  channel?: string;
+}
+
+/**
+ * The config file as written, where everything is optional
+ */
+export type SiteConfigFile = Partial<
+  Omit<SiteConfig, "features" | "sidebars" | "emissions" | "channel">
+> & {
+  sidebars?: SiteConfig["sidebars"];
+  features?: Partial<SiteFeatures>;
+  emissions?: Partial<EmissionsModel>;
+  // Sites to build in one run, each from its own channel. Settings missing
+  // from a channel are taken from the rest of the file.
+  channels?: ChannelDefinition[];
+};
+
+/**
+ * One of several sites in the config file
+ */
+export type ChannelDefinition = Omit<SiteConfigFile, "channels"> & {
+  // Slug of the Are.na channel
+  slug: string;
+};
+
+// Looked up in this order next to the project's package.json
+const CONFIG_FILES = ["site.config.ts", "site.config.json"];
+
+const PROJECT_DIR = path.resolve(__dirname, "..");
+
+const DEFAULT_SITE_CONFIG: SiteConfig = {
+  url: "https://london.permacomputing.net",
+  description: "",
+  language: "en",
+  timeZone: "Europe/London",
+  outputDir: path.join(PROJECT_DIR, "build"),
+  headerLinks: [],
+  sidebars: {},
+  features: {
+    tags: true,
+    authors: true,
+    events: true,
+    notes: true,
+    search: true,
+    rss: true,
+    sitemap: true,
+    about: true,
+  },
+  embedHosts: DEFAULT_IFRAME_HOSTS,
+  robotsDisallow: [],
+  budgets: {},
+  emissions: DEFAULT_EMISSIONS_MODEL,
+};
+
+let siteConfigs: SiteConfig[] | undefined;
+
+function isString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isString);
+}
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === "number" && isFinite(value) && value > 0;
+}
+
+function isTimeZone(value: unknown): boolean {
+  if (!isString(value)) return false;
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isAbsoluteUrl(value: unknown): boolean {
+  if (!isString(value)) return false;
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks the settings of one site against SiteConfigFile
+ * @param config Settings of the site
+ * @param prefix Where the settings are in the file, for the messages
+ * @returns Problems found, empty if the settings are valid
+ */
+function validateSettings(config: Record<string, any>, prefix = ""): string[] {
+  const problems: string[] = [];
+  const name = (key: string) => `"${prefix}${key}"`;
+
+  if (config.url !== undefined && !isAbsoluteUrl(config.url)) {
+    problems.push(`${name("url")} must be an absolute http(s) URL`);
+  }
+  for (const key of ["description", "language", "outputDir", "templates"]) {
+    if (config[key] !== undefined && typeof config[key] !== "string") {
+      problems.push(`${name(key)} must be a string`);
+    }
+  }
+  if (config.language !== undefined && !isString(config.language)) {
+    problems.push(`${name("language")} must not be empty`);
+  }
+  if (config.timeZone !== undefined && !isTimeZone(config.timeZone)) {
+    problems.push(
+      `${name("timeZone")} must be an IANA time zone, e.g. "Europe/London"`,
+    );
+  }
+
+  if (config.headerLinks !== undefined) {
+    if (!Array.isArray(config.headerLinks)) {
+      problems.push(`${name("headerLinks")} must be a list of { label, url }`);
+    } else {
+      config.headerLinks.forEach((link: any, index: number) => {
+        if (!isString(link?.label) || !isString(link?.url)) {
+          problems.push(
+            `${name(`headerLinks[${index}]`)} needs a label and a url`,
+          );
+        }
+      });
+    }
+  }
+
+  if (config.sidebars !== undefined) {
+    if (typeof config.sidebars !== "object" || config.sidebars === null) {
+      problems.push(
+        `${name("sidebars")} must be an object with "left" and "right"`,
+      );
+    } else {
+      for (const [side, sidebar] of Object.entries<any>(config.sidebars)) {
+        if (side !== "left" && side !== "right") {
+          problems.push(
+            `unknown sidebar ${name(`sidebars.${side}`)}, use "left" or "right"`,
+          );
+        } else if (!isString(sidebar?.title) || !isString(sidebar?.link)) {
+          problems.push(`${name(`sidebars.${side}`)} needs a title and a link`);
+        } else if (sidebar.tag !== undefined && !isString(sidebar.tag)) {
+          problems.push(`${name(`sidebars.${side}.tag`)} must be a string`);
+        }
+      }
+    }
+  }
+
+  if (config.features !== undefined) {
+    const features = Object.keys(DEFAULT_SITE_CONFIG.features);
+    for (const [key, value] of Object.entries(config.features ?? {})) {
+      if (!features.includes(key)) {
+        problems.push(`unknown feature ${name(`features.${key}`)}`);
+      } else if (typeof value !== "boolean") {
+        problems.push(`${name(`features.${key}`)} must be true or false`);
+      }
+    }
+  }
+
+  for (const key of ["embedHosts", "robotsDisallow"]) {
+    if (config[key] !== undefined && !isStringArray(config[key])) {
+      problems.push(`${name(key)} must be a list of strings`);
+    }
+  }
+
+  if (config.budgets !== undefined) {
+    problems.push(...validateBudgets(config.budgets, name));
+  }
+
+  if (config.emissions !== undefined) {
+    problems.push(...validateEmissions(config.emissions, name));
+  }
+
+  return problems;
+}
+
+/**
+ * Checks page-weight budgets
+ * @param budgets Budgets as written
+ * @param name Formats the name of a setting for the messages
+ * @returns Problems found, empty if the budgets are valid
+ */
+function validateBudgets(
+  budgets: any,
+  name: (key: string) => string,
+): string[] {
+  if (typeof budgets !== "object" || budgets === null) {
+    return [
+      `${name("budgets")} must be an object with "page", "types" and "total"`,
+    ];
+  }
+
+  const problems: string[] = [];
+  for (const [key, value] of Object.entries<any>(budgets)) {
+    if (key === "page" || key === "total") {
+      if (!isPositiveNumber(value)) {
+        problems.push(`${name(`budgets.${key}`)} must be a number of KB`);
+      }
+    } else if (key === "types") {
+      if (typeof value !== "object" || value === null) {
+        problems.push(
+          `${name("budgets.types")} must map resource types to KB`,
+        );
+        continue;
+      }
+      for (const [type, limit] of Object.entries(value)) {
+        if (!RESOURCE_TYPES.includes(type)) {
+          problems.push(
+            `unknown resource type ${name(`budgets.types.${type}`)}, use one of ${RESOURCE_TYPES.join(", ")}`,
+          );
+        } else if (!isPositiveNumber(limit)) {
+          problems.push(
+            `${name(`budgets.types.${type}`)} must be a number of KB`,
+          );
+        }
+      }
+    } else {
+      problems.push(`unknown budget ${name(`budgets.${key}`)}`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Checks the coefficients of the emissions model
+ * @param emissions Coefficients as written
+ * @param name Formats the name of a setting for the messages
+ * @returns Problems found, empty if the coefficients are valid
+ */
+function validateEmissions(
+  emissions: any,
+  name: (key: string) => string,
+): string[] {
+  if (typeof emissions !== "object" || emissions === null) {
+    return [`${name("emissions")} must be an object`];
+  }
+
+  const problems: string[] = [];
+  for (const [key, value] of Object.entries<any>(emissions)) {
+    if (!(key in DEFAULT_EMISSIONS_MODEL)) {
+      problems.push(`unknown setting ${name(`emissions.${key}`)}`);
+    } else if (key === "returningVisitors" || key === "returningData") {
+      if (typeof value !== "number" || value < 0 || value > 1) {
+        problems.push(
+          `${name(`emissions.${key}`)} must be a share between 0 and 1`,
+        );
+      }
+    } else if (!isPositiveNumber(value)) {
+      problems.push(`${name(`emissions.${key}`)} must be a positive number`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Checks a config file against SiteConfigFile, collecting every problem so
+ * they can be fixed in one go
+ * @param config Parsed config file
+ * @returns Problems found, empty if the config is valid
+ */
+function validateSiteConfig(config: Record<string, any>): string[] {
+  const known = [...Object.keys(DEFAULT_SITE_CONFIG), "templates"];
+  const problems: string[] = [];
+
+  for (const key of Object.keys(config)) {
+    if (![...known, "channels"].includes(key)) {
+      problems.push(`unknown setting "${key}"`);
+    }
+  }
+  problems.push(...validateSettings(config));
+
+  if (config.channels === undefined) return problems;
+
+  if (!Array.isArray(config.channels) || config.channels.length === 0) {
+    problems.push(`"channels" must be a list of channel definitions`);
+    return problems;
+  }
+
+  config.channels.forEach((channel: any, index: number) => {
+    const prefix = `channels[${index}].`;
+    if (typeof channel !== "object" || channel === null) {
+      problems.push(`"channels[${index}]" must be an object`);
+      return;
+    }
+
+    for (const key of Object.keys(channel)) {
+      if (![...known, "slug"].includes(key)) {
+        problems.push(`unknown setting "${prefix}${key}"`);
+      }
+    }
+    if (!isString(channel.slug)) {
+      problems.push(`"${prefix}slug" must be the slug of an Are.na channel`);
+    }
+    if (channel.url === undefined) {
+      problems.push(`"${prefix}url" is required, every site needs its own`);
+    }
+    problems.push(...validateSettings(channel, prefix));
+  });
+
+  return problems;
+}
+
+/**
+ * Reads a config file, either JSON or a TypeScript module exporting the
+ * config as its default export
+ * @param configFile Path of the config file
+ * @returns Parsed config file
+ */
+function readConfigFile(configFile: string): Record<string, any> {
+  if (configFile.endsWith(".json")) {
+    return JSON.parse(fs.readFileSync(configFile, "utf8"));
+  }
+
+  // Builds run under ts-node, so TypeScript config files can be required
+  const loaded = require(configFile);
+  return loaded.default ?? loaded;
+}
+
+/**
+ * Fills in the settings of a site from the settings it inherits
+ * @param config Settings of the site as written
+ * @param inherited Settings of the site without the file's
+ * @param baseDir Directory relative paths are resolved against
+ * @returns Site config
+ */
+function resolveSettings(
+  config: Record<string, any>,
+  inherited: SiteConfig,
+  baseDir: string,
+): SiteConfig {
+  const { channels, slug, ...settings } = config;
+
+  return {
+    ...inherited,
+    ...settings,
+    url: (config.url || inherited.url).replace(/\/+$/, ""),
+    outputDir: config.outputDir
+      ? path.resolve(baseDir, config.outputDir)
+      : inherited.outputDir,
+    templates: config.templates
+      ? path.resolve(baseDir, config.templates)
+      : inherited.templates,
+    sidebars: { ...(config.sidebars ?? inherited.sidebars) },
+    features: { ...inherited.features, ...config.features },
+    budgets: { ...inherited.budgets, ...config.budgets },
+    emissions: { ...inherited.emissions, ...config.emissions },
+  };
+}
+
+/**
+ * Applies the settings that can be overridden from the environment
+ * @param site Site config
+ * @returns Site config with EMBED_HOSTS and ROBOTS_DISALLOW applied
+ */
+function applyEnvironment(site: SiteConfig): SiteConfig {
+  return {
+    ...site,
+    embedHosts: process.env.EMBED_HOSTS
+      ? getConfiguredIframeHosts()
+      : site.embedHosts,
+    robotsDisallow: process.env.ROBOTS_DISALLOW
+      ? process.env.ROBOTS_DISALLOW.split(",")
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+      : site.robotsDisallow,
+  };
+}
+
+/**
+ * Loads and validates the configs of every site to build. A config file
+ * without channels describes one site, built from CHANNEL_SLUG. With
+ * channels, each is a site of its own, taking the settings it doesn't set
+ * from the rest of the file and built into a directory named after its
+ * domain unless it has an outputDir. SITE_URL overrides the URL of a single
+ * site, EMBED_HOSTS and ROBOTS_DISALLOW apply to every site.
+ * @param configFile Path of the config file, by default site.config.ts or
+ * site.config.json in the project directory
+ * @returns Site configs, in the order of the channels
+ */
+export function loadSiteConfigs(configFile?: string): SiteConfig[] {
+  const file =
+    configFile ??
+    CONFIG_FILES.map((name) => path.join(PROJECT_DIR, name)).find((name) =>
+      fs.existsSync(name),
+    );
+
+  let config: Record<string, any> = {};
+  if (file) {
+    try {
+      config = readConfigFile(file);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new Error(`Could not read ${path.basename(file)}: ${reason}`);
+    }
+
+    const problems = validateSiteConfig(config);
+    if (problems.length > 0) {
+      const list = problems.map((problem) => `  - ${problem}`).join("\n");
+      throw new Error(`Invalid ${path.basename(file)}:\n${list}`);
+    }
+  }
+
+  const baseDir = file ? path.dirname(file) : PROJECT_DIR;
+  const base = resolveSettings(config, DEFAULT_SITE_CONFIG, baseDir);
+
+  if (!config.channels) {
+    return [
+      applyEnvironment({
+        ...base,
+        url: (process.env.SITE_URL || base.url).replace(/\/+$/, ""),
+      }),
+    ];
+  }
+
+  const sites = (config.channels as ChannelDefinition[]).map((channel) => {
+    const site = resolveSettings(channel, base, baseDir);
+    return applyEnvironment({
+      ...site,
+      channel: channel.slug,
+      // Sites without an outputDir of their own go in a directory per domain
+      outputDir: channel.outputDir
+        ? site.outputDir
+        : path.join(base.outputDir, new URL(site.url).host),
+    });
+  });
+
+  const outputDirs = sites.map((site) => site.outputDir);
+  const clash = outputDirs.find(
+    (dir, index) => outputDirs.indexOf(dir) !== index,
+  );
+  if (clash) {
+    throw new Error(
+      `Invalid ${path.basename(file!)}: two sites are built into ${clash}`,
+    );
+  }
+
+  return sites;
+}
+
+/**
+ * Loads and validates the site config, or the first site's when the config
+ * file has several channels
+ * @param configFile Path of the config file
+ * @returns Site config
+ */
+export function loadSiteConfig(configFile?: string): SiteConfig {
+  return loadSiteConfigs(configFile)[0];
+}
+
+/**
+ * Gets the configs of every site, loaded from the config file on first use
+ * @returns Site configs
+ */
+export function getSiteConfigs(): SiteConfig[] {
+  if (!siteConfigs) {
+    siteConfigs = loadSiteConfigs();
+  }
+
+  return siteConfigs;
+}
+
+/**
+ * Gets the site config, or the first site's when several are built. Only for
+ * command-line tools measuring a single directory; everything run by the
+ * build is passed the site being built.
+ * @returns Site config
+ */
+export function getSiteConfig(): SiteConfig {
+  return getSiteConfigs()[0];
+}
+
+/**
+ * Gets the absolute URL of a page
+ * @param site Site config
+ * @param slug Slug of the page, "" for the home page
+ * @returns URL of the page, ending in a slash
+ */
+export function getPageUrl(site: SiteConfig, slug: string): string {
+  return slug ? `${site.url}/${slug}/` : `${site.url}/`;
+}
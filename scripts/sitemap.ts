@@ -0,0 +1,120 @@
+import { ArenaChannel, ArenaItem } from "../types/arena-types";
+import { SitemapEntry } from "../utils";
+import { SiteConfig, getPageUrl } from "./site-config";
+import { TAGS_DIR, collectTags } from "./tags";
+import { AUTHORS_DIR, collectAuthors } from "./authors";
+import { EVENTS_DIR, collectEvents } from "./events";
+import { NOTES_DIR, collectNotes } from "./notes";
+import { SEARCH_DIR } from "./search";
+import { ABOUT_DIR } from "./about";
+
+// Name of the sitemap, at the root of the site
+export const SITEMAP_FILE = "sitemap.xml";
+
+/**
+ * Checks whether search engines may index the channel. Channels marked as
+ * not indexable or NSFW on Are.na are kept out of search engines.
+ * @param channelData Arena channel data
+ * @returns Whether the site may be indexed
+ */
+export function isIndexable(channelData: ArenaChannel): boolean {
+  return (
+    channelData.can_index !== false &&
+    !channelData.nsfw &&
+    !channelData["nsfw?"]
+  );
+}
+
+/**
+ * Finds the latest update among blocks, for pages listing them
+ * @param items Blocks on the page
+ * @returns The latest updated_at, if any block has one
+ */
+function getLatestUpdate(items: Iterable<ArenaItem>): string | undefined {
+  let latest: string | undefined;
+  let latestTime = -Infinity;
+
+  for (const item of items) {
+    const time = new Date(item.updated_at).getTime();
+    if (time > latestTime) {
+      latest = item.updated_at;
+      latestTime = time;
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Lists every generated page for the sitemap. Block pages use the block's
+ * updated_at, and pages listing blocks use the latest of their blocks.
+ * Redirects, the 404 page and pages of switched off features are left out.
+ * @param channelData Arena channel data
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config, for absolute URLs
+ * @returns Sitemap entries
+ */
+export function collectSitemapEntries(
+  channelData: ArenaChannel,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+): SitemapEntry[] {
+  const entry = (slug: string, lastmod?: string): SitemapEntry => ({
+    url: getPageUrl(site, slug),
+    lastmod,
+  });
+
+  const entries = [entry("", channelData.updated_at)];
+
+  for (const [slug, item] of slugMap.entries()) {
+    entries.push(entry(slug, item.updated_at));
+  }
+
+  const { features } = site;
+
+  if (features.tags) {
+    const tags = collectTags(slugMap);
+    entries.push(
+      entry(TAGS_DIR, getLatestUpdate(slugMap.values())),
+      ...tags.map((tag) =>
+        entry(`${TAGS_DIR}/${tag.slug}`, getLatestUpdate(tag.items.values())),
+      ),
+    );
+  }
+
+  if (features.authors) {
+    const authors = collectAuthors(slugMap);
+    entries.push(
+      entry(AUTHORS_DIR, getLatestUpdate(slugMap.values())),
+      ...authors.map((author) =>
+        entry(
+          `${AUTHORS_DIR}/${author.slug}`,
+          getLatestUpdate([
+            ...author.items.values(),
+            ...(author.bio ? [author.bio] : []),
+          ]),
+        ),
+      ),
+    );
+  }
+
+  if (features.events) {
+    const events = collectEvents(slugMap).map((event) => event.item);
+    entries.push(entry(EVENTS_DIR, getLatestUpdate(events)));
+  }
+
+  if (features.notes) {
+    const notes = collectNotes(slugMap).map((note) => note.item);
+    entries.push(entry(NOTES_DIR, getLatestUpdate(notes)));
+  }
+
+  if (features.search) {
+    entries.push(entry(SEARCH_DIR, getLatestUpdate(slugMap.values())));
+  }
+
+  if (features.about) {
+    entries.push(entry(ABOUT_DIR));
+  }
+
+  return entries;
+}
@@ -1,6 +1,149 @@
 import fs from "fs";
 import { ArenaChannel, ArenaItem, SlugMapping } from "../types/arena-types";
-import { generateSlug } from "../utils";
+import { generateSlug, SlugOptions } from "../utils";
+import { TAGS_DIR } from "./tags";
+import { AUTHORS_DIR } from "./authors";
+import { EVENTS_DIR } from "./events";
+import { NOTES_DIR } from "./notes";
+import { SEARCH_DIR } from "./search";
+import { ABOUT_DIR } from "./about";
+
+// Build output directories that blocks must never be written over: static
+// assets, and the pages the build generates, whether or not they're switched
+// on, so switching one on later doesn't move blocks
+const RESERVED_SLUGS = new Set([
+  "css",
+  "js",
+  "favicon",
+  "public",
+  TAGS_DIR,
+  AUTHORS_DIR,
+  EVENTS_DIR,
+  NOTES_DIR,
+  SEARCH_DIR,
+  ABOUT_DIR,
+]);
+
+/**
+ * Picks the text a block's slug is derived from
+ * @param item The Arena item
+ * @returns Title, content, or an id based fallback
+ */
+export function getSlugSource(item: ArenaItem): string {
+  // Prioritise the title field from Arena block
+  if (item.title && item.title.trim() !== "") {
+    return item.title;
+  }
+  // If no title, fall back to content
+  if (item.content && item.content.trim() !== "") {
+    return item.content;
+  }
+  // Last resort - use ID with untitled prefix
+  return `untitled-${item.id}`;
+}
+
+/**
+ * Allocates a unique slug to every block in the channel, including blocks
+ * in nested sections, which are placed under their section's slug.
+ * When several blocks share a slug the oldest block (lowest id) keeps it and
+ * the others are suffixed with their id, so existing URLs survive new blocks.
+ * @param channelData The Arena channel data
+ * @param options Options passed on to generateSlug
+ * @returns Map of slugs to ArenaItems
+ */
+export function allocateSlugs(
+  channelData: ArenaChannel,
+  options: SlugOptions = {},
+): Map<string, ArenaItem> {
+  const slugMap = new Map<string, ArenaItem>();
+
+  if (!channelData.contents || !Array.isArray(channelData.contents)) {
+    return slugMap;
+  }
+
+  allocateLevel(channelData.contents, "", slugMap, options);
+  return slugMap;
+}
+
+/**
+ * Allocates slugs for one level of the channel and recurses into sections
+ * @param items Items at this level
+ * @param prefix Slug of the section the items belong to, if any
+ * @param slugMap Map of slugs to ArenaItems being built
+ * @param options Options passed on to generateSlug
+ */
+function allocateLevel(
+  items: ArenaItem[],
+  prefix: string,
+  slugMap: Map<string, ArenaItem>,
+  options: SlugOptions,
+): void {
+  // Group items by the slug they would like to have
+  const wanted = new Map<string, ArenaItem[]>();
+  const seen = new Set<number>();
+
+  items.forEach((item: ArenaItem) => {
+    // The same block can be connected to a channel more than once
+    if (seen.has(item.id)) return;
+    seen.add(item.id);
+
+    // Titles made entirely of symbols or unsupported scripts fall back to the id
+    const fallback = `untitled-${item.id}`;
+    let base = generateSlug(getSlugSource(item), { ...options, fallback });
+
+    if (base === fallback) {
+      console.warn(`Block ${item.id} has an empty slug, using "${base}"`);
+    } else if (RESERVED_SLUGS.has(base)) {
+      console.warn(`Block ${item.id} wants reserved slug "${base}"`);
+      base = `${base}-${item.id}`;
+    }
+
+    const group = wanted.get(base) || [];
+    group.push(item);
+    wanted.set(base, group);
+  });
+
+  const taken = new Set<string>(wanted.keys());
+  const allocated = new Map<number, string>();
+
+  for (const [base, group] of wanted.entries()) {
+    if (group.length === 1) {
+      allocated.set(group[0].id, base);
+      continue;
+    }
+
+    const [first, ...rest] = [...group].sort((a, b) => a.id - b.id);
+    allocated.set(first.id, base);
+
+    const suffixed = rest.map((item) => {
+      let slug = `${base}-${item.id}`;
+      for (let n = 2; taken.has(slug); n++) {
+        slug = `${base}-${item.id}-${n}`;
+      }
+      taken.add(slug);
+      allocated.set(item.id, slug);
+      return slug;
+    });
+
+    console.warn(
+      `Slug collision: ${group.length} blocks want "${prefix ? `${prefix}/` : ""}${base}", ` +
+        `block ${first.id} keeps it, others use ${suffixed.map((slug) => `"${slug}"`).join(", ")}`,
+    );
+  }
+
+  // Insert in channel order so the map follows the channel
+  items.forEach((item: ArenaItem) => {
+    const slug = allocated.get(item.id);
+    const fullSlug = prefix ? `${prefix}/${slug}` : `${slug}`;
+    if (!slug || slugMap.has(fullSlug)) return;
+
+    slugMap.set(fullSlug, item);
+
+    if (item.section?.contents) {
+      allocateLevel(item.section.contents, fullSlug, slugMap, options);
+    }
+  });
+}
 
 /**
  * Handles slug mapping operations
@@ -13,48 +156,48 @@ export class Slug {
   }
 
   /**
-   * Saves slug mappings to file
-   * @param channelData The Arena channel data
+   * Saves slug mappings to file, keyed by block id. Mappings persist between
+   * builds so a block that changes slug remembers where it used to live.
+   * @param slugMap Map of slugs to ArenaItems from allocateSlugs
    */
-  saveSlugMappings(channelData: ArenaChannel): void {
+  saveSlugMappings(slugMap: Map<string, ArenaItem>): void {
     try {
-      if (!channelData) return;
-
-      // Always delete and regenerate the mappings file, regardless of whether it exists
-      if (fs.existsSync(this.mappingFile)) {
-        fs.unlinkSync(this.mappingFile);
-        console.log(`Removed existing slug mappings file`);
-      }
+      if (!slugMap) return;
 
+      const existing = this.loadSlugMappings() || {};
       const mappings: SlugMapping = {};
 
-      channelData.contents.forEach((item: ArenaItem) => {
-        // Prioritise the title field from Arena block
-        let slugSource = "";
+      slugMap.forEach((item: ArenaItem, slug: string) => {
+        // A block in a section is also listed at the top level; keep the
+        // first slug allocated to it
+        if (mappings[item.id]) return;
 
-        // Check if item has a title and it's not empty
-        if (item.title && item.title.trim() !== "") {
-          slugSource = item.title;
-        }
-        // If no title, fall back to content
-        else if (item.content && item.content.trim() !== "") {
-          slugSource = item.content;
-        }
-        // Last resort - use ID with untitled prefix
-        else {
-          slugSource = `untitled-${item.id}`;
-        }
+        const previous = existing[item.id];
+        const previousSlugs = previous ? [...previous.previous_slugs] : [];
 
-        const slug = generateSlug(slugSource);
+        if (previous && previous.slug !== slug) {
+          previousSlugs.push(previous.slug);
+          console.log(
+            `Block ${item.id} moved from "${previous.slug}" to "${slug}"`,
+          );
+        }
 
-        mappings[slug] = {
+        mappings[item.id] = {
           id: item.id,
-          title: slugSource, // Store the source we used to create the slug
+          slug,
+          title: getSlugSource(item), // Store the source we used to create the slug
           class: item.class,
           original_title: item.title || "", // Store the original title for reference
+          previous_slugs: previousSlugs.filter((old) => old !== slug),
         };
       });
 
+      // Blocks missing from this build keep their history, so their old
+      // URLs redirect again once they are back
+      for (const [id, mapping] of Object.entries(existing)) {
+        if (!mappings[id]) mappings[id] = mapping;
+      }
+
       fs.writeFileSync(
         this.mappingFile,
         JSON.stringify(mappings, null, 2),
@@ -67,7 +210,7 @@ export class Slug {
 
   /**
    * Loads slug mappings from file
-   * @returns Mapping of slugs to items
+   * @returns Mapping of block ids to slugs
    */
   loadSlugMappings(): SlugMapping | null {
     try {
@@ -77,13 +220,58 @@ export class Slug {
       }
 
       const fileContent = fs.readFileSync(this.mappingFile, "utf8");
-      return JSON.parse(fileContent) as SlugMapping;
+      const parsed = JSON.parse(fileContent) as Record<string, any>;
+      const mappings: SlugMapping = {};
+
+      for (const [key, mapping] of Object.entries(parsed)) {
+        // Older mapping files were keyed by slug and had no history
+        const slug = typeof mapping.slug === "string" ? mapping.slug : key;
+
+        mappings[mapping.id] = {
+          id: mapping.id,
+          slug,
+          title: mapping.title,
+          class: mapping.class,
+          original_title: mapping.original_title,
+          previous_slugs: Array.isArray(mapping.previous_slugs)
+            ? mapping.previous_slugs
+            : [],
+        };
+      }
+
+      return mappings;
     } catch (err) {
       console.error("Error loading slug mappings:", err);
       return null;
     }
   }
 
+  /**
+   * Collects the old slugs that should redirect to a block's current page
+   * @param slugMap Map of slugs to ArenaItems for the current build
+   * @returns Map of old slugs to current slugs
+   */
+  getRedirects(slugMap: Map<string, ArenaItem>): Map<string, string> {
+    const redirects = new Map<string, string>();
+    const mappings = this.loadSlugMappings();
+    if (!mappings) return redirects;
+
+    for (const mapping of Object.values(mappings)) {
+      // Blocks missing from this build keep their history but get no
+      // redirects until they are back
+      if (slugMap.get(mapping.slug)?.id !== mapping.id) continue;
+
+      for (const oldSlug of mapping.previous_slugs) {
+        // Never shadow a page that exists in this build
+        if (slugMap.has(oldSlug) || RESERVED_SLUGS.has(oldSlug)) continue;
+
+        redirects.set(oldSlug, mapping.slug);
+      }
+    }
+
+    return redirects;
+  }
+
   /**
    * Checks if a slug exists in the mappings
    * @param slug The slug to check
@@ -93,6 +281,6 @@ export class Slug {
     const mappings = this.loadSlugMappings();
     if (!mappings) return false;
 
-    return Object.prototype.hasOwnProperty.call(mappings, slug);
+    return Object.values(mappings).some((mapping) => mapping.slug === slug);
   }
 }
@@ -0,0 +1,46 @@
+import { ArenaItem } from "../types/arena-types";
+import { getTagSlug, parseItemMetadata } from "../utils";
+
+// Directory the tag pages are generated in
+export const TAGS_DIR = "tags";
+
+/**
+ * A tag and the blocks carrying it
+ */
+export interface TagEntry {
+  name: string;
+  slug: string;
+  // Slugs of the tagged blocks, mapped to the blocks
+  items: Map<string, ArenaItem>;
+}
+
+/**
+ * Collects the tags of every block in the slug map
+ * @param slugMap Map of slugs to ArenaItems
+ * @returns Tags sorted by name
+ */
+export function collectTags(slugMap: Map<string, ArenaItem>): TagEntry[] {
+  const tags = new Map<string, TagEntry>();
+
+  for (const [slug, item] of slugMap.entries()) {
+    for (const name of parseItemMetadata(item.description).tags) {
+      const tagSlug = getTagSlug(name);
+
+      if (!tags.has(tagSlug)) {
+        tags.set(tagSlug, { name, slug: tagSlug, items: new Map() });
+      }
+      tags.get(tagSlug)!.items.set(slug, item);
+    }
+  }
+
+  return Array.from(tags.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Lists the slugs of the tag pages, for the typed paths module
+ * @param tags Tags of the site
+ * @returns Slugs of the tag index and every tag page
+ */
+export function getTagPageSlugs(tags: TagEntry[]): string[] {
+  return [TAGS_DIR, ...tags.map((tag) => `${TAGS_DIR}/${tag.slug}`)];
+}
@@ -0,0 +1,274 @@
+/**
+ * A small Handlebars-like template engine. Supported syntax:
+ *
+ * - `{{ path.to.value }}` - HTML-escaped output
+ * - `{{{ path.to.value }}}` - raw output, for trusted HTML only
+ * - `{{#if value}} ... {{else}} ... {{/if}}`
+ * - `{{#each list}} ... {{else}} ... {{/each}}` - `this`, `@index`,
+ *   `@first` and `@last` are available inside the loop, and names not found
+ *   on the current item are looked up in the enclosing data
+ * - Only the data's own properties are looked up, never inherited ones such
+ *   as `constructor`
+ * - `{{> partial-name}}` - renders `views/partials/partial-name.html` with
+ *   the current data
+ * - `{{! comment }}`
+ */
+
+import { escapeHtml } from "../utils/sanitize";
+
+export type TemplateData = Record<string, unknown>;
+
+export type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "variable"; path: string; raw: boolean }
+  | {
+      type: "if";
+      path: string;
+      children: TemplateNode[];
+      inverse: TemplateNode[];
+    }
+  | {
+      type: "each";
+      path: string;
+      children: TemplateNode[];
+      inverse: TemplateNode[];
+    }
+  | { type: "partial"; name: string };
+
+type BlockNode = Extract<TemplateNode, { type: "if" | "each" }>;
+
+interface Scope {
+  value: unknown;
+  locals: Record<string, unknown>;
+}
+
+// Guards against partials that include themselves
+const MAX_PARTIAL_DEPTH = 20;
+
+const TAG_PATTERN = /\{\{\{\s*([\s\S]+?)\s*\}\}\}|\{\{\s*([\s\S]+?)\s*\}\}/g;
+
+/**
+ * Parses template source into a tree of nodes
+ * @param source Template source
+ * @returns Parsed template nodes
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last, with the list new nodes are added to
+  const stack: Array<{ node: BlockNode; target: TemplateNode[] }> = [];
+  let target = root;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  TAG_PATTERN.lastIndex = 0;
+  while ((match = TAG_PATTERN.exec(source)) !== null) {
+    const index = match.index;
+
+    if (index > lastIndex) {
+      target.push({ type: "text", value: source.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    // Triple braces are always raw output
+    if (match[1] !== undefined) {
+      target.push({ type: "variable", path: match[1].trim(), raw: true });
+      continue;
+    }
+
+    const tag = match[2].trim();
+
+    if (tag.startsWith("!")) {
+      continue;
+    }
+
+    if (tag.startsWith(">")) {
+      target.push({ type: "partial", name: tag.slice(1).trim() });
+      continue;
+    }
+
+    if (tag.startsWith("#")) {
+      const [keyword, ...rest] = tag.slice(1).trim().split(/\s+/);
+      if (keyword !== "if" && keyword !== "each") {
+        throw new Error(`Unknown block helper "#${keyword}"`);
+      }
+
+      const node: BlockNode = {
+        type: keyword,
+        path: rest.join(" "),
+        children: [],
+        inverse: [],
+      };
+      target.push(node);
+      stack.push({ node, target: node.children });
+      target = node.children;
+      continue;
+    }
+
+    if (tag === "else") {
+      const open = stack[stack.length - 1];
+      if (!open) {
+        throw new Error("{{else}} outside of a block");
+      }
+      open.target = open.node.inverse;
+      target = open.node.inverse;
+      continue;
+    }
+
+    if (tag.startsWith("/")) {
+      const keyword = tag.slice(1).trim();
+      const open = stack.pop();
+      if (!open || open.node.type !== keyword) {
+        throw new Error(`Unexpected {{/${keyword}}}`);
+      }
+      target = stack.length > 0 ? stack[stack.length - 1].target : root;
+      continue;
+    }
+
+    target.push({ type: "variable", path: tag, raw: false });
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Unclosed {{#${stack[stack.length - 1].node.type}}}`);
+  }
+
+  if (lastIndex < source.length) {
+    target.push({ type: "text", value: source.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+/**
+ * Renders parsed template nodes with the provided data
+ * @param nodes Parsed template nodes
+ * @param data Data to inject into the template
+ * @param loadPartial Returns the parsed nodes of a named partial
+ * @returns Rendered output
+ */
+export function renderNodes(
+  nodes: TemplateNode[],
+  data: TemplateData,
+  loadPartial: (name: string) => TemplateNode[],
+): string {
+  return renderWithScopes(nodes, [{ value: data, locals: {} }], loadPartial, 0);
+}
+
+function renderWithScopes(
+  nodes: TemplateNode[],
+  scopes: Scope[],
+  loadPartial: (name: string) => TemplateNode[],
+  depth: number,
+): string {
+  let output = "";
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        output += node.value;
+        break;
+
+      case "variable": {
+        const value = lookup(node.path, scopes);
+        if (value === undefined || value === null || value === false) break;
+        output += node.raw ? String(value) : escapeHtml(value);
+        break;
+      }
+
+      case "if":
+        output += renderWithScopes(
+          isTruthy(lookup(node.path, scopes)) ? node.children : node.inverse,
+          scopes,
+          loadPartial,
+          depth,
+        );
+        break;
+
+      case "each": {
+        const list = lookup(node.path, scopes);
+        if (!Array.isArray(list) || list.length === 0) {
+          output += renderWithScopes(node.inverse, scopes, loadPartial, depth);
+          break;
+        }
+
+        list.forEach((value, index) => {
+          const locals = {
+            "@index": index,
+            "@first": index === 0,
+            "@last": index === list.length - 1,
+          };
+          output += renderWithScopes(
+            node.children,
+            [...scopes, { value, locals }],
+            loadPartial,
+            depth,
+          );
+        });
+        break;
+      }
+
+      case "partial":
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw new Error(`Partials nested too deeply at "${node.name}"`);
+        }
+        output += renderWithScopes(
+          loadPartial(node.name),
+          scopes,
+          loadPartial,
+          depth + 1,
+        );
+        break;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Resolves a dotted path against the scopes, innermost first
+ */
+function lookup(pathExpression: string, scopes: Scope[]): unknown {
+  const current = scopes[scopes.length - 1];
+
+  if (pathExpression.startsWith("@")) {
+    return current.locals[pathExpression];
+  }
+
+  const segments = pathExpression.split(".");
+
+  // `this` and `this.name` only look at the current scope
+  if (segments[0] === "this") {
+    return resolve(current.value, segments.slice(1));
+  }
+
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const value = scopes[i].value;
+    if (
+      value !== null &&
+      typeof value === "object" &&
+      hasOwn(value, segments[0])
+    ) {
+      return resolve(value, segments);
+    }
+  }
+
+  return undefined;
+}
+
+function resolve(value: unknown, segments: string[]): unknown {
+  let result = value;
+  for (const segment of segments) {
+    if (result === null || result === undefined) return undefined;
+    if (!hasOwn(result, segment)) return undefined;
+    result = (result as Record<string, unknown>)[segment];
+  }
+  return result;
+}
+
+function hasOwn(value: unknown, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, name);
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
@@ -7,29 +7,162 @@ import {
   processItemDescription,
   extractColourFromDescription,
   formatDate,
+  escapeHtml,
+  sanitizeCssValue,
+  formatTimeElement,
+  toDate,
+  getDescriptionText,
+  parseItemMetadata,
+  SizeReport,
 } from "../utils";
+import { getSlugSource } from "./slug";
+import { SiteConfig } from "./site-config";
+import { TAGS_DIR, TagEntry } from "./tags";
+import { AUTHORS_DIR, AuthorEntry } from "./authors";
+import {
+  EVENTS_DIR,
+  EVENT_CALENDAR_FILE,
+  EventEntry,
+  collectEvents,
+  splitEvents,
+} from "./events";
+
+import {
+  NOTES_DIR,
+  NOTES_TAG,
+  NoteEntry,
+  collectNotes,
+  getNoteNeighbours,
+  groupNotesByMonth,
+} from "./notes";
+
+import { SEARCH_DIR, SearchEntry } from "./search";
+import { ABOUT_DIR, getSiteFootprint } from "./about";
+import {
+  getHomeMeta,
+  getItemMeta,
+  getPageMeta,
+  get404Meta,
+  summariseText,
+} from "./page-meta";
+import { FEED_FILES, OPML_FILE, getFeedLinks } from "./feeds";
+import {
+  TemplateData,
+  TemplateNode,
+  parseTemplate,
+  renderNodes,
+} from "./template-engine";
+
+// Number of upcoming events listed in the home page sidebar
+const SIDEBAR_EVENT_COUNT = 3;
+
+interface CompiledTemplate {
+  nodes: TemplateNode[];
+  mtimeMs: number;
+}
+
+// Parsed templates and partials, keyed by absolute path
+const templateCache = new Map<string, CompiledTemplate>();
+
+// In watch mode cached templates are checked against the file on every use
+let watchTemplates = false;
+
+/**
+ * Turns checking cached templates for changes on disk on or off
+ * @param enabled True to re-read templates whose mtime has changed
+ */
+export function setTemplateWatchMode(enabled: boolean): void {
+  watchTemplates = enabled;
+}
+
+// Directory whose templates replace the ones with the same path in views/
+let templateOverrides: { viewsDir: string; overridesDir: string } | undefined;
+
+/**
+ * Sets the templates of the site being built that replace the default ones,
+ * so a site can change some templates and share the rest
+ * @param viewsDir Directory of the default templates
+ * @param overridesDir Directory of the replacements, undefined for none
+ */
+export function setTemplateOverrides(
+  viewsDir: string,
+  overridesDir?: string,
+): void {
+  templateOverrides = overridesDir
+    ? { viewsDir: path.resolve(viewsDir), overridesDir }
+    : undefined;
+}
 
 /**
- * Renders a template with provided data
+ * Finds the file a template is read from, which is the site's own version
+ * of it if it has one
+ * @param templatePath Path of the default template
+ * @returns Path of the template to use
+ */
+export function resolveTemplatePath(templatePath: string): string {
+  if (!templateOverrides) return templatePath;
+
+  const relative = path.relative(
+    templateOverrides.viewsDir,
+    path.resolve(templatePath),
+  );
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    return templatePath;
+  }
+
+  const override = path.join(templateOverrides.overridesDir, relative);
+  return fs.existsSync(override) ? override : templatePath;
+}
+
+/**
+ * Gets the parsed form of a template, reading and parsing it only once
+ * @param templatePath Path to the template file
+ * @returns Parsed template nodes
+ */
+export function compileTemplate(templatePath: string): TemplateNode[] {
+  const absolutePath = path.resolve(templatePath);
+  const cached = templateCache.get(absolutePath);
+
+  if (cached && !watchTemplates) {
+    return cached.nodes;
+  }
+
+  const mtimeMs = fs.statSync(absolutePath).mtimeMs;
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.nodes;
+  }
+
+  const nodes = parseTemplate(fs.readFileSync(absolutePath, "utf8"));
+  templateCache.set(absolutePath, { nodes, mtimeMs });
+  return nodes;
+}
+
+/**
+ * Renders a template with provided data. See template-engine.ts for the
+ * supported syntax; partials are read from the `partials` directory next to
+ * the template's own directory. Templates and partials the site overrides
+ * are read from its own templates directory.
  * @param templatePath Path to the template file
  * @param data Data to inject into the template
  * @returns Rendered HTML
  */
 export function renderTemplate(
   templatePath: string,
-  data: Record<string, string | number>,
+  data: TemplateData,
 ): string {
   try {
-    // Read the template file
-    let template = fs.readFileSync(templatePath, "utf8");
-
-    // Replace placeholders with actual data
-    for (const [key, value] of Object.entries(data)) {
-      const placeholder = new RegExp(`{{\\s*${key}\\s*}}`, "g");
-      template = template.replace(placeholder, String(value || ""));
-    }
+    const template = compileTemplate(resolveTemplatePath(templatePath));
+    const partialsDir = path.join(path.dirname(templatePath), "..", "partials");
 
-    return template;
+    return renderNodes(template, data, (name) => {
+      const partialPath = resolveTemplatePath(
+        path.join(partialsDir, `${name}.html`),
+      );
+      if (!fs.existsSync(partialPath)) {
+        throw new Error(`Partial "${name}" not found in ${partialsDir}`);
+      }
+      return compileTemplate(partialPath);
+    });
   } catch (err) {
     console.error(`Error rendering template ${templatePath}:`, err);
     if (err instanceof Error) {
@@ -40,135 +173,261 @@ export function renderTemplate(
   }
 }
 
+// Navigation HTML for each slug map, so a build only renders it once
+const navigationCache = new WeakMap<Map<string, ArenaItem>, string>();
+
 /**
  * Generate navigation links from the slug map
  * @param slugMap Map of slugs to ArenaItems
  * @returns HTML string of navigation links
  */
 export function getNavigationLinks(slugMap: Map<string, ArenaItem>): string {
+  // Every page shares the nav, so build it once per slug map
+  const cached = navigationCache.get(slugMap);
+  if (cached !== undefined) return cached;
+
   const links = Array.from(slugMap.entries())
     .map(([slug, item]) => {
       const title = item.title || item.content || `Untitled #${item.id}`;
       const displayTitle =
         title.length > 30 ? title.substring(0, 30) + "..." : title;
-      return `<li><a href="/${slug}">${displayTitle}</a></li>`;
+      return `<li><a href="/${escapeHtml(slug)}">${escapeHtml(displayTitle)}</a></li>`;
     })
     .join("");
 
-  return `<ul class="nav-links">${links}</ul>`;
+  const nav = `<ul class="nav-links">${links}</ul>`;
+  navigationCache.set(slugMap, nav);
+  return nav;
 }
 
 /**
- * Renders the home page
+ * Gets the data every page passes to the main layout
  * @param channelData Arena channel data
  * @param slugMap Map of slugs to ArenaItems
- * @param templatesDir Directory containing templates
- * @returns Rendered HTML for home page
+ * @param site Site config
+ * @param pageFeed Directory and title of the page's own feed, advertised
+ * before the site's
+ * @returns Channel title, navigation, header links, sidebars, features and
+ * feed links
  */
-export async function renderHomePage(
+function getLayoutData(
   channelData: ArenaChannel,
   slugMap: Map<string, ArenaItem>,
-  templatesDir: string,
-): Promise<string> {
-  // Process all items to create blocks and identify pinned items
-  const processedItems = await Promise.all(
-    channelData.contents.map(async (item: ArenaItem) => {
-      // Prioritise title for display
-      let displayTitle = "";
+  site: SiteConfig,
+  pageFeed?: { dir: string; title: string },
+): TemplateData {
+  const feedLinks = site.features.rss
+    ? [
+        ...(pageFeed ? getFeedLinks(pageFeed.dir, pageFeed.title) : []),
+        ...getFeedLinks("", channelData.title),
+      ]
+    : [];
 
-      // Check if item has a title and it's not empty
-      if (item.title && item.title.trim() !== "") {
-        displayTitle = item.title;
-      }
-      // If no title, fall back to content
-      else if (item.content && item.content.trim() !== "") {
-        // For content, limit to first 50 chars to avoid very long titles
-        displayTitle =
-          item.content.length > 50
-            ? item.content.substring(0, 50) + "..."
-            : item.content;
-      }
-      // Last resort - use ID with untitled prefix
-      else {
-        displayTitle = `Untitled #${item.id}`;
-      }
+  return {
+    channelTitle: channelData.title,
+    navLinks: getNavigationLinks(slugMap),
+    language: site.language,
+    headerLinks: site.headerLinks,
+    sidebars: site.sidebars,
+    features: site.features,
+    feedLinks,
+  };
+}
+
+/**
+ * Maps item ids to their slugs within one level of the slug map
+ * @param slugMap Map of slugs to ArenaItems
+ * @param parentSlug Slug of the section to look in, or "" for the top level
+ * @returns Map of item ids to slugs
+ */
+export function getSectionSlugs(
+  slugMap: Map<string, ArenaItem>,
+  parentSlug: string = "",
+): Map<number, string> {
+  const slugs = new Map<number, string>();
+
+  for (const [slug, item] of slugMap.entries()) {
+    const separator = slug.lastIndexOf("/");
+    const parent = separator === -1 ? "" : slug.substring(0, separator);
+
+    if (parent === parentSlug && !slugs.has(item.id)) {
+      slugs.set(item.id, slug);
+    }
+  }
+
+  return slugs;
+}
+
+/**
+ * Picks the title shown for an item
+ * @param item Arena item
+ * @returns Title, shortened content, or an id based fallback
+ */
+function getDisplayTitle(item: ArenaItem): string {
+  // Check if item has a title and it's not empty
+  if (item.title && item.title.trim() !== "") {
+    return item.title;
+  }
+  // If no title, fall back to content
+  if (item.content && item.content.trim() !== "") {
+    // For content, limit to first 50 chars to avoid very long titles
+    return item.content.length > 50
+      ? item.content.substring(0, 50) + "..."
+      : item.content;
+  }
+  // Last resort - use ID with untitled prefix
+  return `Untitled #${item.id}`;
+}
 
-      // Generate slug from the same source used for display title
-      const slugSource =
-        item.title && item.title.trim() !== ""
-          ? item.title
-          : item.content && item.content.trim() !== ""
-            ? item.content
-            : `untitled-${item.id}`;
+/**
+ * Builds the inline style for an item from its Colour and Border fields
+ * @param item Arena item
+ * @returns CSS declarations, or an empty string
+ */
+function getItemStyle(item: ArenaItem): string {
+  // Extract colour and border information from description if available
+  const { backgroundColor, borderColor } = item.description
+    ? extractColourFromDescription(item.description)
+    : { backgroundColor: "", borderColor: "" };
 
-      const slug = generateSlug(slugSource);
+  const styles: string[] = [];
+  if (sanitizeCssValue(backgroundColor)) {
+    styles.push(`background-color: ${sanitizeCssValue(backgroundColor)}`);
+  }
+  if (sanitizeCssValue(borderColor)) {
+    styles.push(`border: 1px solid ${sanitizeCssValue(borderColor)}`);
+  }
+
+  return styles.length > 0 ? `${styles.join("; ")};` : "";
+}
+
+/**
+ * Data for one content block, rendered by views/partials/block-card.html
+ */
+export interface BlockCard {
+  id: number;
+  slug: string;
+  title: string;
+  // Pre-rendered HTML
+  description: string;
+  // Pre-rendered HTML, only filled in for notes
+  content: string;
+  isPinned: boolean;
+  isNotes: boolean;
+  style: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Prepares a list of items for rendering as content blocks, pinned items first
+ * @param items Arena items to render
+ * @param slugs Map of item ids to slugs
+ * @param slugMap Map of slugs to ArenaItems, passed on to block renderers
+ * @param site Site config, passed on to block renderers
+ * @param keepOrder True to keep the order of the items instead of sorting
+ * @returns Block card data in display order
+ */
+export async function getBlockCards(
+  items: ArenaItem[],
+  slugs: Map<number, string>,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  keepOrder: boolean = false,
+): Promise<BlockCard[]> {
+  // Process all items to create blocks and identify pinned items
+  const processedItems = await Promise.all(
+    items.map(async (item: ArenaItem) => {
+      const slug = slugs.get(item.id) ?? generateSlug(getSlugSource(item));
 
       // Process item description ONCE to get both HTML and isPinned
       const { html: itemDescription, isPinned } = item.description
-        ? processItemDescription(item.description)
+        ? processItemDescription(item.description, site)
         : { html: "", isPinned: false };
 
-      // Check if the item has a "notes" tag in its description
-      const hasNotesTag = item.description
-        ? item.description.toLowerCase().includes("tag: notes") ||
-          item.description.toLowerCase().includes("tags: notes") ||
-          item.description.toLowerCase().includes("#notes")
-        : false;
+      // Check if the item has a "notes" tag, as the notes archive does
+      const hasNotesTag = parseItemMetadata(item.description).tags.includes(
+        NOTES_TAG,
+      );
 
       // Process item content if it has notes tag
-      const itemContent = hasNotesTag ? await processItemContent(item) : "";
-
-      // Extract colour and border information from description if available
-      const { backgroundColor, borderColor } = item.description
-        ? extractColourFromDescription(item.description)
-        : { backgroundColor: "", borderColor: "" };
-
-      // Build the style attribute string
-      let styleAttribute = "";
-      const styles: string[] = [];
-      if (backgroundColor) {
-        styles.push(`background-color: ${backgroundColor}`);
-      }
-      if (borderColor) {
-        styles.push(`border: 1px solid ${borderColor}`);
-      }
-      if (styles.length > 0) {
-        styleAttribute = ` style="${styles.join("; ")};"`;
-      }
+      const itemContent = hasNotesTag
+        ? await processItemContent(item, {
+            slug,
+            slugMap,
+            site,
+          })
+        : "";
 
-      // Create the HTML block for this item
-      const blockHtml = `<div class="content-block${isPinned ? " pinned" : ""}${hasNotesTag ? " notes" : ""}" data-id="${item.id}"${styleAttribute}>
-        <h2><a href="/${slug}">${displayTitle}</a></h2>
-        ${itemDescription ? `<div class="item-description">${itemDescription}</div>` : ""}
-        ${hasNotesTag && itemContent ? `<div class="item-content">${itemContent}</div>` : ""}
-        <div class="item-timestamps">
-          <span class="created">Created: ${formatDate(item.created_at)}</span>
-          <span class="updated">Updated: ${formatDate(item.updated_at)}</span>
-        </div>
-      </div>`;
+      const card: BlockCard = {
+        id: item.id,
+        slug,
+        title: getDisplayTitle(item),
+        description: itemDescription,
+        content: itemContent,
+        isPinned,
+        isNotes: hasNotesTag,
+        style: getItemStyle(item),
+        createdAt: formatDate(item.created_at),
+        updatedAt: formatDate(item.updated_at),
+      };
 
       return {
-        html: blockHtml,
+        card,
         isPinned,
         item,
       };
     }),
   );
 
+  if (keepOrder) {
+    return processedItems.map((processed) => processed.card);
+  }
+
+  // Notes are ordered by the date of their session, not when they were added
+  const sessionDates = new Map(
+    collectNotes(slugMap).map((note) => [
+      note.item.id,
+      toDate(note.date).getTime(),
+    ]),
+  );
+  const getSortDate = (item: ArenaItem) =>
+    sessionDates.get(item.id) ?? new Date(item.created_at).getTime();
+
   // Sort items to put pinned items at the top
   processedItems.sort((a, b) => {
     // First priority: pinned status
     if (a.isPinned && !b.isPinned) return -1;
     if (!a.isPinned && b.isPinned) return 1;
 
-    // Second priority: created_at date (newest first)
-    const dateA = new Date(a.item.created_at);
-    const dateB = new Date(b.item.created_at);
-    return dateB.getTime() - dateA.getTime();
+    // Second priority: session date for notes, created_at date for
+    // everything else (newest first)
+    return getSortDate(b.item) - getSortDate(a.item);
   });
 
-  // Join all blocks together
-  const blocks = processedItems.map((item) => item.html).join("");
+  return processedItems.map((processed) => processed.card);
+}
+
+/**
+ * Renders the home page
+ * @param channelData Arena channel data
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ * @returns Rendered HTML for home page
+ */
+export async function renderHomePage(
+  channelData: ArenaChannel,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  templatesDir: string,
+): Promise<string> {
+  const blocks = await getBlockCards(
+    channelData.contents,
+    getSectionSlugs(slugMap),
+    slugMap,
+    site,
+  );
 
   const pageContent = renderTemplate(
     path.join(templatesDir, "pages/home.html"),
@@ -179,74 +438,470 @@ export async function renderHomePage(
     },
   );
 
+  const { upcoming } = site.features.events
+    ? splitEvents(collectEvents(slugMap), site.timeZone)
+    : { upcoming: [] };
+
   return renderTemplate(path.join(templatesDir, "layouts/main.html"), {
-    channelTitle: channelData.title,
-    navLinks: getNavigationLinks(slugMap),
+    ...getLayoutData(channelData, slugMap, site),
+    content: pageContent,
+    meta: getHomeMeta(channelData, site),
+    nextEvents: upcoming.slice(0, SIDEBAR_EVENT_COUNT).map(getEventSummary),
+  });
+}
+
+/**
+ * Prepares an event for the sidebar list
+ * @param event Event block
+ * @returns Title, link, date and location of the event
+ */
+function getEventSummary(event: EventEntry): TemplateData {
+  return {
+    title: event.title,
+    slug: event.slug,
+    date: formatTimeElement(event.start),
+    location: event.location || "",
+  };
+}
+
+/**
+ * Prepares a note for linking to it
+ * @param note Notes block
+ * @returns Title, link and session date of the note
+ */
+function getNoteLink(note: NoteEntry): TemplateData {
+  return {
+    title: note.title,
+    slug: note.slug,
+    date: formatTimeElement(note.date),
+  };
+}
+
+/**
+ * Renders the notes archive, grouped by year and month of the session
+ * @param channelData Arena channel data
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ * @returns Rendered HTML for the notes archive
+ */
+export function renderNotesPage(
+  channelData: ArenaChannel,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  templatesDir: string,
+): string {
+  const years: Array<{ year: number; months: TemplateData[] }> = [];
+
+  for (const month of groupNotesByMonth(collectNotes(slugMap))) {
+    if (years.length === 0 || years[years.length - 1].year !== month.year) {
+      years.push({ year: month.year, months: [] });
+    }
+
+    years[years.length - 1].months.push({
+      name: new Date(Date.UTC(month.year, month.month - 1)).toLocaleString(
+        "en-GB",
+        { month: "long", timeZone: "UTC" },
+      ),
+      notes: month.notes.map(getNoteLink),
+    });
+  }
+
+  const pageContent = renderTemplate(
+    path.join(templatesDir, "pages/notes.html"),
+    { years },
+  );
+
+  return renderTemplate(path.join(templatesDir, "layouts/main.html"), {
+    title: `${channelData.title} | Notes`,
+    ...getLayoutData(channelData, slugMap, site),
+    content: pageContent,
+    meta: getPageMeta(channelData, site, "Notes", NOTES_DIR),
+  });
+}
+
+/**
+ * Renders the search page. The list of all blocks is what visitors without
+ * JavaScript see; search.js replaces it with the results.
+ * @param channelData Arena channel data
+ * @param entries Search entries of every block
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ * @returns Rendered HTML for the search page
+ */
+export function renderSearchPage(
+  channelData: ArenaChannel,
+  entries: SearchEntry[],
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  templatesDir: string,
+): string {
+  const pageContent = renderTemplate(
+    path.join(templatesDir, "pages/search.html"),
+    {
+      entries: [...entries].sort((a, b) => a.title.localeCompare(b.title)),
+    },
+  );
+
+  return renderTemplate(path.join(templatesDir, "layouts/main.html"), {
+    title: `${channelData.title} | Search`,
+    ...getLayoutData(channelData, slugMap, site),
     content: pageContent,
+    meta: getPageMeta(channelData, site, "Search", SEARCH_DIR),
   });
 }
 
+/**
+ * Renders the events page, split into upcoming and past events
+ * @param channelData Arena channel data
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ * @param now Time separating upcoming from past events
+ * @returns Rendered HTML for the events page
+ */
+export async function renderEventsPage(
+  channelData: ArenaChannel,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  templatesDir: string,
+  now: Date = new Date(),
+): Promise<string> {
+  const { upcoming, past } = splitEvents(
+    collectEvents(slugMap),
+    site.timeZone,
+    now,
+  );
+
+  const toCards = (events: EventEntry[]) =>
+    getBlockCards(
+      events.map((event) => event.item),
+      new Map(events.map((event) => [event.item.id, event.slug])),
+      slugMap,
+      site,
+      true,
+    );
+
+  const pageContent = renderTemplate(
+    path.join(templatesDir, "pages/events.html"),
+    {
+      upcoming: await toCards(upcoming),
+      past: await toCards(past),
+    },
+  );
+
+  return renderTemplate(path.join(templatesDir, "layouts/main.html"), {
+    title: `${channelData.title} | Events`,
+    ...getLayoutData(channelData, slugMap, site),
+    content: pageContent,
+    meta: getPageMeta(channelData, site, "Events", EVENTS_DIR),
+  });
+}
+
+/**
+ * Renders the index page of a section built from a nested channel
+ * @param channelData Arena channel data
+ * @param item Channel block whose contents make up the section
+ * @param slug Slug of the section
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ * @returns Rendered HTML for section page
+ */
+export async function renderSectionPage(
+  channelData: ArenaChannel,
+  item: ArenaItem,
+  slug: string,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  templatesDir: string,
+): Promise<string> {
+  const section = item.section;
+  const sectionTitle = section?.title || item.title || `Untitled #${item.id}`;
+  const contents = section?.contents || [];
+
+  const blocks = await getBlockCards(
+    contents,
+    getSectionSlugs(slugMap, slug),
+    slugMap,
+    site,
+  );
+
+  const description = section?.metadata?.description || item.description;
+  const { html: sectionDescription } = description
+    ? processItemDescription(description, site)
+    : { html: "" };
+
+  const pageContent = renderTemplate(
+    path.join(templatesDir, "pages/section.html"),
+    {
+      sectionTitle: sectionTitle,
+      sectionDescription: sectionDescription,
+      totalBlocks: contents.length,
+      blocks: blocks,
+      backLink: getParentLink(slug),
+    },
+  );
+
+  return renderTemplate(path.join(templatesDir, "layouts/main.html"), {
+    title: `${channelData.title} | ${sectionTitle}`,
+    ...getLayoutData(channelData, slugMap, site),
+    content: pageContent,
+    meta: getPageMeta(
+      channelData,
+      site,
+      sectionTitle,
+      slug,
+      summariseText(getDescriptionText(description)),
+    ),
+  });
+}
+
+/**
+ * Maps item ids to slugs for a set of blocks taken from the slug map
+ * @param items Map of slugs to ArenaItems
+ * @returns Map of item ids to slugs
+ */
+function getItemSlugs(items: Map<string, ArenaItem>): Map<number, string> {
+  const slugs = new Map<number, string>();
+  for (const [slug, item] of items.entries()) {
+    slugs.set(item.id, slug);
+  }
+  return slugs;
+}
+
+/**
+ * Renders the index of all tags with the number of blocks carrying each
+ * @param channelData Arena channel data
+ * @param tags Tags of the site
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ * @returns Rendered HTML for the tag index page
+ */
+export function renderTagIndexPage(
+  channelData: ArenaChannel,
+  tags: TagEntry[],
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  templatesDir: string,
+): string {
+  const pageContent = renderTemplate(
+    path.join(templatesDir, "pages/tags.html"),
+    {
+      tags: tags.map((tag) => ({
+        name: tag.name,
+        slug: tag.slug,
+        count: tag.items.size,
+      })),
+      opmlUrl: site.features.rss ? `/${OPML_FILE}` : "",
+    },
+  );
+
+  return renderTemplate(path.join(templatesDir, "layouts/main.html"), {
+    title: `${channelData.title} | Tags`,
+    ...getLayoutData(channelData, slugMap, site),
+    content: pageContent,
+    meta: getPageMeta(channelData, site, "Tags", TAGS_DIR),
+  });
+}
+
+/**
+ * Renders the page listing the blocks with a tag
+ * @param channelData Arena channel data
+ * @param tag Tag and the blocks carrying it
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ * @returns Rendered HTML for the tag page
+ */
+export async function renderTagPage(
+  channelData: ArenaChannel,
+  tag: TagEntry,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  templatesDir: string,
+): Promise<string> {
+  const tagDir = `${TAGS_DIR}/${tag.slug}`;
+
+  // Tagged blocks can come from any section, so link them by their full slug
+  const blocks = await getBlockCards(
+    Array.from(tag.items.values()),
+    getItemSlugs(tag.items),
+    slugMap,
+    site,
+  );
+
+  const pageContent = renderTemplate(
+    path.join(templatesDir, "pages/tag.html"),
+    {
+      tagName: tag.name,
+      totalBlocks: blocks.length,
+      blocks: blocks,
+      feedUrl: site.features.rss ? `/${tagDir}/${FEED_FILES.rss}` : "",
+    },
+  );
+
+  return renderTemplate(path.join(templatesDir, "layouts/main.html"), {
+    title: `${channelData.title} | #${tag.name}`,
+    ...getLayoutData(channelData, slugMap, site, {
+      dir: tagDir,
+      title: `${channelData.title} | #${tag.name}`,
+    }),
+    content: pageContent,
+    meta: getPageMeta(channelData, site, `#${tag.name}`, tagDir),
+  });
+}
+
+/**
+ * Renders the index of all authors with the number of blocks by each
+ * @param channelData Arena channel data
+ * @param authors Authors of the site
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ * @returns Rendered HTML for the authors index page
+ */
+export function renderAuthorIndexPage(
+  channelData: ArenaChannel,
+  authors: AuthorEntry[],
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  templatesDir: string,
+): string {
+  const pageContent = renderTemplate(
+    path.join(templatesDir, "pages/authors.html"),
+    {
+      authors: authors.map((author) => ({
+        name: author.name,
+        slug: author.slug,
+        count: author.items.size,
+      })),
+    },
+  );
+
+  return renderTemplate(path.join(templatesDir, "layouts/main.html"), {
+    title: `${channelData.title} | Authors`,
+    ...getLayoutData(channelData, slugMap, site),
+    content: pageContent,
+    meta: getPageMeta(channelData, site, "Authors", AUTHORS_DIR),
+  });
+}
+
+/**
+ * Renders the page of an author, with their bio and blocks
+ * @param channelData Arena channel data
+ * @param author Author, their blocks and bio
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ * @returns Rendered HTML for the author page
+ */
+export async function renderAuthorPage(
+  channelData: ArenaChannel,
+  author: AuthorEntry,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  templatesDir: string,
+): Promise<string> {
+  const authorDir = `${AUTHORS_DIR}/${author.slug}`;
+
+  const blocks = await getBlockCards(
+    Array.from(author.items.values()),
+    getItemSlugs(author.items),
+    slugMap,
+    site,
+  );
+
+  const bio = author.bio
+    ? await processItemContent(author.bio, {
+        slugMap,
+        site,
+      })
+    : "";
+
+  const pageContent = renderTemplate(
+    path.join(templatesDir, "pages/author.html"),
+    {
+      authorName: author.name,
+      bio: bio,
+      totalBlocks: blocks.length,
+      blocks: blocks,
+      feedUrl: site.features.rss ? `/${authorDir}/${FEED_FILES.rss}` : "",
+    },
+  );
+
+  return renderTemplate(path.join(templatesDir, "layouts/main.html"), {
+    title: `${channelData.title} | ${author.name}`,
+    ...getLayoutData(channelData, slugMap, site, {
+      dir: authorDir,
+      title: `${channelData.title} | ${author.name}`,
+    }),
+    content: pageContent,
+    meta: getPageMeta(
+      channelData,
+      site,
+      author.name,
+      authorDir,
+      author.bio ? summariseText(author.bio.content || "") : "",
+    ),
+  });
+}
+
+/**
+ * Gets the link to the page one level above a slug
+ * @param slug Slug of the current page
+ * @returns Path of the parent page
+ */
+function getParentLink(slug: string): string {
+  const separator = slug.lastIndexOf("/");
+  return separator === -1 ? "/" : `/${slug.substring(0, separator)}`;
+}
+
 /**
  * Renders an item page
  * @param item Arena item
  * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
  * @param templatesDir Directory containing templates
+ * @param slug Slug of the item, used to link back to its section
  * @returns Rendered HTML for item page
  */
 export async function renderItemPage(
   channelData: ArenaChannel,
   item: ArenaItem,
   slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
   templatesDir: string,
+  slug: string = "",
 ): Promise<string> {
   // Process the main content
-  const itemContent = await processItemContent(item);
+  const itemContent = await processItemContent(item, {
+    slug,
+    slugMap,
+    site,
+  });
 
   // Process the description if it exists
   const { html: itemDescription, isPinned } = item.description
-    ? processItemDescription(item.description)
+    ? processItemDescription(item.description, site)
     : { html: "", isPinned: false };
 
-  // Extract colour and border information from description if available
-  const { backgroundColor, borderColor } = item.description
-    ? extractColourFromDescription(item.description)
-    : { backgroundColor: "", borderColor: "" }; // Ensure fallback provides both
-
-  // Build the style attribute string
-  let styleAttribute = "";
-  const styles: string[] = [];
-  if (backgroundColor) {
-    styles.push(`background-color: ${backgroundColor}`);
-  }
-  if (borderColor) {
-    styles.push(`border: 1px solid ${borderColor}`); // Example border style
-  }
-  if (styles.length > 0) {
-    styleAttribute = ` style="${styles.join("; ")};"`;
-  }
+  const displayTitle = getDisplayTitle(item);
 
-  // Prioritise title for display
-  let displayTitle = "";
+  // Events link to a calendar file next to their page
+  const isEvent =
+    site.features.events &&
+    collectEvents(slugMap).some(
+      (event) => event.item.id === item.id && event.slug === slug,
+    );
 
-  // Check if item has a title and it's not empty
-  if (item.title && item.title.trim() !== "") {
-    displayTitle = item.title;
-  }
-  // If no title, fall back to content
-  else if (item.content && item.content.trim() !== "") {
-    // For content, limit to first 50 chars to avoid very long titles
-    displayTitle =
-      item.content.length > 50
-        ? item.content.substring(0, 50) + "..."
-        : item.content;
-  }
-  // Last resort - use ID with untitled prefix
-  else {
-    displayTitle = `Untitled #${item.id}`;
-  }
+  // Notes link to the sessions before and after them
+  const { previous, next } = site.features.notes
+    ? getNoteNeighbours(collectNotes(slugMap), slug)
+    : { previous: undefined, next: undefined };
 
-  // We need to modify the item.html template to include an item-container div
-  // that can receive our style attribute
   const pageContent = renderTemplate(
     path.join(templatesDir, "pages/item.html"),
     {
@@ -254,19 +909,69 @@ export async function renderItemPage(
       itemTitle: displayTitle,
       itemContent: itemContent,
       itemDescription: itemDescription,
-      itemId: item.id.toString(),
-      styleAttribute: styleAttribute,
-      isPinned: isPinned ? "true" : "false",
+      itemId: item.id,
+      style: getItemStyle(item),
+      isPinned: isPinned,
       createdAt: formatDate(item.created_at),
       updatedAt: formatDate(item.updated_at),
+      backLink: getParentLink(slug),
+      calendarLink: isEvent ? `/${slug}/${EVENT_CALENDAR_FILE}` : "",
+      noteNav:
+        previous || next
+          ? {
+              previous: previous ? getNoteLink(previous) : null,
+              next: next ? getNoteLink(next) : null,
+            }
+          : null,
     },
   );
 
   return renderTemplate(path.join(templatesDir, "layouts/main.html"), {
     title: `${channelData.title} | ${displayTitle}`,
-    channelTitle: channelData.title, // Add channelTitle for the main layout
-    navLinks: getNavigationLinks(slugMap),
+    ...getLayoutData(channelData, slugMap, site),
+    content: pageContent,
+    meta: getItemMeta(channelData, item, slug, slugMap, site),
+  });
+}
+
+/**
+ * Renders the page about the site's weight, energy use and emissions
+ * @param channelData Arena channel data
+ * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
+ * @param templatesDir Directory containing templates
+ * @param report Size report of the other pages
+ * @returns Rendered HTML
+ */
+export function renderAboutPage(
+  channelData: ArenaChannel,
+  slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
+  templatesDir: string,
+  report: SizeReport,
+): string {
+  const footprint = getSiteFootprint(report);
+
+  const pageContent = renderTemplate(
+    path.join(templatesDir, "pages/about-site.html"),
+    {
+      footprint,
+      returningVisitors: Math.round(footprint.model.returningVisitors * 100),
+      returningData: Math.round(footprint.model.returningData * 100),
+    },
+  );
+
+  return renderTemplate(path.join(templatesDir, "layouts/main.html"), {
+    title: `${channelData.title} | About this site`,
+    ...getLayoutData(channelData, slugMap, site),
     content: pageContent,
+    meta: getPageMeta(
+      channelData,
+      site,
+      "About this site",
+      ABOUT_DIR,
+      `${footprint.averageSize} and an estimated ${footprint.averageCo2e} g CO2e for an average page view`,
+    ),
   });
 }
 
@@ -274,24 +979,41 @@ export async function renderItemPage(
  * Renders the 404 page
  * @param channelData Channel data from Arena
  * @param slugMap Map of slugs to ArenaItems
+ * @param site Site config
  * @param templatesDir Directory containing templates
  * @returns Rendered HTML for 404 page
  */
 export function render404Page(
   channelData: ArenaChannel,
   slugMap: Map<string, ArenaItem>,
+  site: SiteConfig,
   templatesDir: string,
 ): string {
   // Read the 404 page content
   const pageContent = fs.readFileSync(
-    path.join(templatesDir, "pages/404.html"),
+    resolveTemplatePath(path.join(templatesDir, "pages/404.html")),
     "utf8",
   );
 
   return renderTemplate(path.join(templatesDir, "layouts/main.html"), {
     title: `${channelData.title} | Page not found`,
-    channelTitle: channelData.title,
-    navLinks: getNavigationLinks(slugMap),
+    ...getLayoutData(channelData, slugMap, site),
     content: pageContent,
+    meta: get404Meta(channelData, site),
+  });
+}
+
+/**
+ * Renders a redirect stub for a page that has moved
+ * @param targetSlug Slug of the page to redirect to
+ * @param templatesDir Directory containing templates
+ * @returns Rendered HTML for redirect page
+ */
+export function renderRedirectPage(
+  targetSlug: string,
+  templatesDir: string,
+): string {
+  return renderTemplate(path.join(templatesDir, "layouts/redirect.html"), {
+    target: `/${targetSlug}`,
   });
 }
@@ -0,0 +1,202 @@
+/**
+ * Checks how dates written by hand become events: the formats parseDate
+ * reads, dates found in the prose of older event blocks, time zones, which
+ * events are upcoming and the times written to calendars.
+ * Run with `npm test`.
+ */
+
+import assert from "node:assert/strict";
+import { EventEntry, findEventDetails, splitEvents } from "../scripts/events";
+import {
+  ParsedDate,
+  generateICalendar,
+  parseDate,
+  parseDayMonth,
+  parseTimeOn,
+  toZonedDate,
+} from "../utils";
+
+const TIME_ZONE = "Europe/London";
+
+function event(start: ParsedDate, end?: ParsedDate): EventEntry {
+  return {
+    slug: "event",
+    item: {} as EventEntry["item"],
+    title: "",
+    start,
+    end,
+  };
+}
+
+const cases: Array<[string, () => void]> = [
+  [
+    "dates are read in every supported format",
+    () => {
+      const day = { year: 2025, month: 7, day: 19 };
+      assert.deepEqual(parseDate("2025-07-19"), day);
+      assert.deepEqual(parseDate("19/07/2025"), day);
+      assert.deepEqual(parseDate("19.07.25"), day);
+      assert.deepEqual(parseDate("19th of July 2025"), day);
+      assert.deepEqual(parseDate("2025-07-19 16:00"), {
+        ...day,
+        hour: 16,
+        minute: 0,
+      });
+      assert.deepEqual(parseDate("19 July 2025 at 9.30"), {
+        ...day,
+        hour: 9,
+        minute: 30,
+      });
+    },
+  ],
+  [
+    "invalid dates and surrounding text are rejected",
+    () => {
+      assert.equal(parseDate("2025-02-30"), null);
+      assert.equal(parseDate("2025-07-19 24:00"), null);
+      assert.equal(parseDate("Notes for 14/07/2025"), null);
+      assert.deepEqual(parseDate("Notes for 14/07/2025", true), {
+        year: 2025,
+        month: 7,
+        day: 14,
+      });
+    },
+  ],
+  [
+    "times on their own fall on the given day",
+    () => {
+      const day = { year: 2025, month: 7, day: 19 };
+      assert.deepEqual(parseTimeOn("18:00", day), {
+        ...day,
+        hour: 18,
+        minute: 0,
+      });
+      assert.equal(parseTimeOn("tomorrow", day), null);
+    },
+  ],
+  [
+    "a day and month without a year takes the closest year",
+    () => {
+      assert.deepEqual(
+        parseDayMonth("Saturday 19th of July", new Date("2025-07-01")),
+        { year: 2025, month: 7, day: 19 },
+      );
+      assert.deepEqual(parseDayMonth("2 Jan", new Date("2025-12-20")), {
+        year: 2026,
+        month: 1,
+        day: 2,
+      });
+      assert.equal(parseDayMonth("at 16:00", new Date("2025-07-01")), null);
+    },
+  ],
+  [
+    "events without a Date field are read from their description",
+    () => {
+      assert.deepEqual(
+        findEventDetails(
+          "Join us on Saturday **19th of July**\n16:00 - 18:00",
+          "2025-07-01T10:00:00Z",
+        ),
+        {
+          start: { year: 2025, month: 7, day: 19, hour: 16, minute: 0 },
+          end: { year: 2025, month: 7, day: 19, hour: 18, minute: 0 },
+        },
+      );
+      assert.deepEqual(
+        findEventDetails("HTML Day, 2/8/2025", "2025-07-01T10:00:00Z"),
+        { start: { year: 2025, month: 8, day: 2 } },
+      );
+      assert.equal(findEventDetails("No date here", "2025-07-01"), null);
+    },
+  ],
+  [
+    "times are read in the site's time zone",
+    () => {
+      const summer = { year: 2025, month: 7, day: 19, hour: 16, minute: 0 };
+      const winter = { year: 2025, month: 1, day: 19, hour: 16, minute: 0 };
+      assert.equal(
+        toZonedDate(summer, TIME_ZONE).toISOString(),
+        "2025-07-19T15:00:00.000Z",
+      );
+      assert.equal(
+        toZonedDate(winter, TIME_ZONE).toISOString(),
+        "2025-01-19T16:00:00.000Z",
+      );
+      assert.equal(
+        toZonedDate(summer, "America/New_York").toISOString(),
+        "2025-07-19T20:00:00.000Z",
+      );
+    },
+  ],
+  [
+    "events are upcoming until they end in the site's time zone",
+    () => {
+      const start = { year: 2025, month: 7, day: 19, hour: 16, minute: 0 };
+      const end = { ...start, hour: 18 };
+      const events = [event(start, end)];
+
+      // 18:30 in London is 17:30 UTC
+      const during = new Date("2025-07-19T16:30:00Z");
+      const after = new Date("2025-07-19T17:30:00Z");
+      assert.equal(splitEvents(events, TIME_ZONE, during).upcoming.length, 1);
+      assert.equal(splitEvents(events, TIME_ZONE, after).past.length, 1);
+
+      // Without an end, an event lasts until the end of its day
+      const untimed = [event(start)];
+      const evening = new Date("2025-07-19T22:30:00Z");
+      const nextDay = new Date("2025-07-19T23:30:00Z");
+      assert.equal(
+        splitEvents(untimed, TIME_ZONE, evening).upcoming.length,
+        1,
+      );
+      assert.equal(splitEvents(untimed, TIME_ZONE, nextDay).past.length, 1);
+    },
+  ],
+  [
+    "calendars have times in UTC and whole days as dates",
+    () => {
+      const calendar = generateICalendar(
+        [
+          {
+            uid: "timed",
+            summary: "Computer movies",
+            start: { year: 2025, month: 7, day: 19, hour: 16, minute: 0 },
+            end: { year: 2025, month: 7, day: 19, hour: 18, minute: 0 },
+            updatedAt: "2025-07-01T10:00:00.000Z",
+          },
+          {
+            uid: "all-day",
+            summary: "HTML Day",
+            start: { year: 2025, month: 8, day: 2 },
+            updatedAt: "2025-07-01T10:00:00.000Z",
+          },
+        ],
+        "Events",
+        TIME_ZONE,
+      );
+
+      assert.match(calendar, /DTSTART:20250719T150000Z\r\n/);
+      assert.match(calendar, /DTEND:20250719T170000Z\r\n/);
+      assert.match(calendar, /DTSTART;VALUE=DATE:20250802\r\n/);
+      assert.match(calendar, /DTEND;VALUE=DATE:20250803\r\n/);
+      assert.match(calendar, /DTSTAMP:20250701T100000Z\r\n/);
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, check] of cases) {
+  try {
+    check();
+    console.log(`ok - ${name}`);
+  } catch (err) {
+    failed++;
+    console.error(`not ok - ${name}`);
+    console.error(err);
+  }
+}
+
+if (failed > 0) {
+  console.error(`${failed} of ${cases.length} date checks failed`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,146 @@
+/**
+ * Checks the notes journal: session dates come from the title or a Date
+ * field, notes are ordered and grouped by them, and the Tag and Tags fields
+ * are read the same way everywhere. Run with `npm test`.
+ */
+
+import assert from "node:assert/strict";
+import {
+  collectNotes,
+  getNoteNeighbours,
+  groupNotesByMonth,
+} from "../scripts/notes";
+import { loadSiteConfig } from "../scripts/site-config";
+import { ArenaItem } from "../types/arena-types";
+import { parseItemMetadata, processItemDescription } from "../utils";
+
+function note(id: number, title: string, description: string): ArenaItem {
+  return { id, title, description } as ArenaItem;
+}
+
+/**
+ * Collects notes, returning the warnings instead of printing them
+ */
+function collect(items: ArenaItem[]): {
+  slugs: string[];
+  warnings: string[];
+  notes: ReturnType<typeof collectNotes>;
+} {
+  const warnings: string[] = [];
+  const warn = console.warn;
+  console.warn = (message: string) => warnings.push(message);
+  try {
+    const notes = collectNotes(
+      new Map(items.map((item) => [`block-${item.id}`, item])),
+    );
+    return { slugs: notes.map((entry) => entry.slug), warnings, notes };
+  } finally {
+    console.warn = warn;
+  }
+}
+
+const cases: Array<[string, () => void]> = [
+  [
+    "session dates are read from inconsistent titles",
+    () => {
+      const { notes } = collect([
+        note(1, "Notes for 2025-07-14", "Tags: notes"),
+        note(2, "30/06/2025", "Tags: notes"),
+        note(3, "07.07.25", "Tags: notes"),
+      ]);
+
+      assert.deepEqual(
+        notes.map((entry) => entry.date),
+        [
+          { year: 2025, month: 6, day: 30 },
+          { year: 2025, month: 7, day: 7 },
+          { year: 2025, month: 7, day: 14 },
+        ],
+      );
+    },
+  ],
+  [
+    "a Date field wins over the title",
+    () => {
+      const { notes } = collect([
+        note(1, "Notes for 01/01/2025", "Date: 2025-03-02\nTags: notes"),
+      ]);
+      assert.deepEqual(notes[0].date, { year: 2025, month: 3, day: 2 });
+    },
+  ],
+  [
+    "notes without a date are left out with a warning",
+    () => {
+      const { slugs, warnings } = collect([
+        note(1, "Session notes", "Tags: notes"),
+        note(2, "30/06/2025", "Tags: notes"),
+      ]);
+      assert.deepEqual(slugs, ["block-2"]);
+      assert.equal(warnings.length, 1);
+      assert.match(warnings[0], /block-1/);
+    },
+  ],
+  [
+    "notes are ordered by session, not by when they were added",
+    () => {
+      const { slugs, notes } = collect([
+        note(1, "14/07/2025", "Tag: notes"),
+        note(2, "30/06/2025", "Tags: notes, reading"),
+        note(3, "07/07/2025", "Tags: #Notes"),
+        note(4, "01/07/2025", "Tags: reading"),
+      ]);
+      assert.deepEqual(slugs, ["block-2", "block-3", "block-1"]);
+
+      const { previous, next } = getNoteNeighbours(notes, "block-3");
+      assert.equal(previous?.slug, "block-2");
+      assert.equal(next?.slug, "block-1");
+      assert.deepEqual(getNoteNeighbours(notes, "block-4"), {});
+
+      assert.deepEqual(
+        groupNotesByMonth(notes).map(({ year, month, notes }) => [
+          year,
+          month,
+          notes.map((entry) => entry.slug),
+        ]),
+        [
+          [2025, 7, ["block-1", "block-3"]],
+          [2025, 6, ["block-2"]],
+        ],
+      );
+    },
+  ],
+  [
+    "Tag and Tags fields are read the same way",
+    () => {
+      assert.deepEqual(parseItemMetadata("Tag: Notes").tags, ["notes"]);
+      assert.deepEqual(parseItemMetadata("tags: #notes, Event").tags, [
+        "notes",
+        "event",
+      ]);
+
+      const site = loadSiteConfig();
+      for (const field of ["Tag: reading", "Tags: reading"]) {
+        const { html } = processItemDescription(`Some text\n${field}`, site);
+        assert.match(html, /class="tag-link">#reading</);
+        assert.doesNotMatch(html, /Tags?: reading/);
+      }
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, check] of cases) {
+  try {
+    check();
+    console.log(`ok - ${name}`);
+  } catch (err) {
+    failed++;
+    console.error(`not ok - ${name}`);
+    console.error(err);
+  }
+}
+
+if (failed > 0) {
+  console.error(`${failed} of ${cases.length} notes checks failed`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,17 @@
+/**
+ * Runs every test/*.test.ts in one process, so ts-node only starts once.
+ * Each file reports its own checks and sets the exit code if one fails.
+ */
+
+import fs from "fs";
+import path from "path";
+
+const files = fs
+  .readdirSync(__dirname)
+  .filter((file) => file.endsWith(".test.ts"))
+  .sort();
+
+for (const file of files) {
+  console.log(`# ${file}`);
+  require(path.join(__dirname, file));
+}
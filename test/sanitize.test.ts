@@ -0,0 +1,161 @@
+/**
+ * Checks the sanitiser that everything from Are.na goes through: scripts,
+ * event handlers and unsafe URLs are removed, iframes are only kept from the
+ * site's embed hosts, and descriptions are sanitised the same way.
+ * Run with `npm test`.
+ */
+
+import assert from "node:assert/strict";
+import { loadSiteConfig } from "../scripts/site-config";
+import {
+  escapeHtml,
+  isSafeUrl,
+  processItemDescription,
+  sanitizeCssValue,
+  sanitizeHtml,
+  sanitizeUrl,
+  stripHtml,
+} from "../utils";
+
+const hosts = { iframeHosts: ["player.vimeo.com"] };
+
+const cases: Array<[string, () => void]> = [
+  [
+    "scripts, styles and event handlers are removed",
+    () => {
+      assert.equal(
+        sanitizeHtml(
+          `<p onclick="alert(1)">Hi<script>alert(1)</script><style>p{}</style></p>`,
+          hosts,
+        ),
+        "<p>Hi</p>",
+      );
+      assert.equal(
+        sanitizeHtml(`<img src="a.png" onerror="alert(1)">`, hosts),
+        `<img src="a.png">`,
+      );
+    },
+  ],
+  [
+    "unknown elements are unwrapped and comments dropped",
+    () => {
+      assert.equal(
+        sanitizeHtml(`<custom-el><b>bold</b></custom-el><!-- note -->`, hosts),
+        "<b>bold</b>",
+      );
+    },
+  ],
+  [
+    "unsafe URLs are removed from links and images",
+    () => {
+      assert.equal(
+        sanitizeHtml(`<a href="javascript:alert(1)">x</a>`, hosts),
+        "<a>x</a>",
+      );
+      assert.equal(
+        sanitizeHtml(`<a href=" JaVa\tScRiPt:alert(1)">x</a>`, hosts),
+        "<a>x</a>",
+      );
+      assert.equal(
+        sanitizeHtml(`<img src="data:image/svg+xml,<svg></svg>">`, hosts),
+        "<img>",
+      );
+      assert.equal(
+        sanitizeHtml(`<a href="/about/">x</a>`, hosts),
+        `<a href="/about/">x</a>`,
+      );
+    },
+  ],
+  [
+    "links opening a new tab get noopener",
+    () => {
+      assert.equal(
+        sanitizeHtml(`<a href="https://x.org" target="_blank">x</a>`, hosts),
+        `<a href="https://x.org" target="_blank" rel="noopener noreferrer">x</a>`,
+      );
+    },
+  ],
+  [
+    "iframes are only kept from the allowed hosts",
+    () => {
+      const vimeo = `<iframe src="https://player.vimeo.com/video/1"></iframe>`;
+      assert.equal(sanitizeHtml(vimeo, hosts), vimeo);
+      assert.equal(
+        sanitizeHtml(`<iframe src="https://evil.example/"></iframe>`, hosts),
+        "",
+      );
+      assert.equal(sanitizeHtml(vimeo, { iframeHosts: [] }), "");
+    },
+  ],
+  [
+    "URLs, CSS values and text are escaped",
+    () => {
+      assert.equal(
+        escapeHtml(`<a href="x">'&'</a>`),
+        "&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;",
+      );
+      assert.equal(isSafeUrl("mailto:club@example.org"), true);
+      assert.equal(isSafeUrl("vbscript:msgbox"), false);
+      assert.equal(sanitizeUrl("javascript:alert(1)"), "#");
+      assert.equal(sanitizeUrl(undefined), "#");
+      assert.equal(
+        sanitizeUrl(`https://x.org/?a=1&b="2"`),
+        "https://x.org/?a=1&amp;b=&quot;2&quot;",
+      );
+      assert.equal(sanitizeCssValue("#ff0000"), "#ff0000");
+      assert.equal(sanitizeCssValue("red; background: url(x)"), "");
+      assert.equal(
+        stripHtml("<p>One</p><p>two <b>three</b></p>"),
+        "One two three",
+      );
+    },
+  ],
+  [
+    "descriptions are sanitised with the site's embed hosts",
+    () => {
+      const site = { ...loadSiteConfig(), embedHosts: ["player.vimeo.com"] };
+      const { html } = processItemDescription(
+        [
+          `<iframe src="https://player.vimeo.com/video/1"></iframe>`,
+          `<iframe src="https://www.youtube.com/embed/1"></iframe>`,
+          `<img src=x onerror="alert(1)">`,
+        ].join("\n"),
+        site,
+      );
+
+      assert.match(html, /player\.vimeo\.com/);
+      assert.doesNotMatch(html, /youtube/);
+      assert.doesNotMatch(html, /onerror/);
+    },
+  ],
+  [
+    "metadata values in descriptions are escaped",
+    () => {
+      const site = loadSiteConfig();
+      const { html } = processItemDescription(
+        "Location: <b>Hall</b>\nTags: <i>x</i>",
+        site,
+      );
+
+      assert.match(html, /&lt;b&gt;Hall&lt;\/b&gt;/);
+      assert.match(html, /#&lt;i&gt;x&lt;\/i&gt;/);
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, check] of cases) {
+  try {
+    check();
+    console.log(`ok - ${name}`);
+  } catch (err) {
+    failed++;
+    console.error(`not ok - ${name}`);
+    console.error(err);
+  }
+}
+
+if (failed > 0) {
+  console.error(`${failed} of ${cases.length} sanitiser checks failed`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,90 @@
+/**
+ * Checks the guarantees of generateSlug: slugs are never empty, dates can be
+ * kept readable, other scripts are romanised and length is limited.
+ * Run with `npm test`.
+ */
+
+import assert from "node:assert/strict";
+import { generateSlug } from "../utils";
+
+const cases: Array<[string, () => void]> = [
+  [
+    "symbol-only titles fall back",
+    () => {
+      assert.equal(generateSlug("!!! ???"), "untitled");
+      assert.equal(generateSlug(""), "untitled");
+      assert.equal(generateSlug("---", { fallback: "block" }), "block");
+    },
+  ],
+  [
+    "Egyptian hieroglyphs are stripped or kept whole",
+    () => {
+      assert.equal(generateSlug("𓀀𓁐𓂀"), "untitled");
+      assert.equal(generateSlug("𓀀𓁐𓂀", { unicode: "keep" }), "𓀀𓁐𓂀");
+      assert.equal(
+        generateSlug("𓀀𓁐𓂀", { unicode: "keep", maxLength: 2 }),
+        "𓀀𓁐",
+      );
+    },
+  ],
+  [
+    "Cyrillic is romanised",
+    () => {
+      assert.equal(generateSlug("Привет мир"), "privet-mir");
+      assert.equal(generateSlug("Щука и ёж"), "shchuka-i-yozh");
+    },
+  ],
+  [
+    "kana is romanised",
+    () => {
+      assert.equal(generateSlug("カタカナ ひらがな"), "katakana-hiragana");
+    },
+  ],
+  [
+    "Latin diacritics are folded",
+    () => {
+      assert.equal(generateSlug("Café déjà vu"), "cafe-deja-vu");
+    },
+  ],
+  [
+    "dates are kept readable only when asked",
+    () => {
+      assert.equal(generateSlug("30/06/2025"), "30062025");
+      assert.equal(
+        generateSlug("30/06/2025", { preserveDates: true }),
+        "30-06-2025",
+      );
+    },
+  ],
+  [
+    "maxLength truncates without a trailing hyphen",
+    () => {
+      assert.equal(generateSlug("a".repeat(150)).length, 100);
+      assert.equal(
+        generateSlug("Hello wonderful world", { maxLength: 9 }),
+        "hello-won",
+      );
+      assert.equal(
+        generateSlug("Hello wonderful world", { maxLength: 6 }),
+        "hello",
+      );
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, check] of cases) {
+  try {
+    check();
+    console.log(`ok - ${name}`);
+  } catch (err) {
+    failed++;
+    console.error(`not ok - ${name}`);
+    console.error(err);
+  }
+}
+
+if (failed > 0) {
+  console.error(`${failed} of ${cases.length} slug checks failed`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,141 @@
+/**
+ * Checks the template engine: output is escaped unless asked for raw,
+ * blocks and partials see the right data, and only the data's own
+ * properties are looked up. Run with `npm test`.
+ */
+
+import assert from "node:assert/strict";
+import {
+  TemplateData,
+  TemplateNode,
+  parseTemplate,
+  renderNodes,
+} from "../scripts/template-engine";
+
+function render(
+  source: string,
+  data: TemplateData,
+  partials: Record<string, string> = {},
+): string {
+  return renderNodes(parseTemplate(source), data, (name): TemplateNode[] => {
+    if (!(name in partials)) throw new Error(`No partial "${name}"`);
+    return parseTemplate(partials[name]);
+  });
+}
+
+const cases: Array<[string, () => void]> = [
+  [
+    "double braces escape HTML",
+    () => {
+      assert.equal(
+        render("<p>{{ title }}</p>", { title: `<script>"x" & 'y'</script>` }),
+        "<p>&lt;script&gt;&quot;x&quot; &amp; &#39;y&#39;&lt;/script&gt;</p>",
+      );
+    },
+  ],
+  [
+    "triple braces output raw HTML",
+    () => {
+      assert.equal(
+        render("{{{ html }}}", { html: "<em>hi</em>" }),
+        "<em>hi</em>",
+      );
+    },
+  ],
+  [
+    "missing, null and false values render nothing",
+    () => {
+      assert.equal(
+        render("[{{ a }}{{ b }}{{ c }}{{ d.e }}]", { b: null, c: false }),
+        "[]",
+      );
+      assert.equal(render("{{ n }}", { n: 0 }), "0");
+    },
+  ],
+  [
+    "if and each use else for empty values",
+    () => {
+      const source =
+        "{{#if items}}{{#each items}}{{ @index }}:{{ this }}{{#if @last}}.{{else}},{{/if}}{{/each}}{{else}}none{{/if}}";
+      assert.equal(render(source, { items: ["a", "b"] }), "0:a,1:b.");
+      assert.equal(render(source, { items: [] }), "none");
+    },
+  ],
+  [
+    "each looks up names missing from the item in the enclosing data",
+    () => {
+      assert.equal(
+        render("{{#each tags}}{{ prefix }}{{ name }} {{/each}}", {
+          prefix: "#",
+          tags: [{ name: "a" }, { name: "<b>" }],
+        }),
+        "#a #&lt;b&gt; ",
+      );
+    },
+  ],
+  [
+    "partials render with the current data and escape it",
+    () => {
+      assert.equal(
+        render(
+          "{{#each cards}}{{> card}}{{/each}}",
+          { cards: [{ title: "A & B" }] },
+          { card: "<h2>{{ title }}</h2>{{> footer}}", footer: "<hr>" },
+        ),
+        "<h2>A &amp; B</h2><hr>",
+      );
+    },
+  ],
+  [
+    "partials that include themselves are stopped",
+    () => {
+      assert.throws(() => render("{{> loop}}", {}, { loop: "{{> loop}}" }), {
+        message: /nested too deeply/,
+      });
+    },
+  ],
+  [
+    "inherited properties are not looked up",
+    () => {
+      assert.equal(
+        render("[{{ constructor }}{{ toString }}{{ title.constructor }}]", {
+          title: "x",
+        }),
+        "[]",
+      );
+      assert.equal(
+        render("{{#each items}}{{ constructor }}{{/each}}", {
+          items: [{}],
+          constructor: "outer",
+        }),
+        "outer",
+      );
+      assert.equal(render("{{ title.length }}", { title: "abc" }), "3");
+    },
+  ],
+  [
+    "unbalanced blocks are rejected",
+    () => {
+      assert.throws(() => parseTemplate("{{#if a}}"), /Unclosed/);
+      assert.throws(() => parseTemplate("{{#if a}}{{/each}}"), /Unexpected/);
+      assert.throws(() => parseTemplate("{{#with a}}{{/with}}"), /Unknown/);
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, check] of cases) {
+  try {
+    check();
+    console.log(`ok - ${name}`);
+  } catch (err) {
+    failed++;
+    console.error(`not ok - ${name}`);
+    console.error(err);
+  }
+}
+
+if (failed > 0) {
+  console.error(`${failed} of ${cases.length} template engine checks failed`);
+  process.exitCode = 1;
+}
@@ -3,7 +3,7 @@ declare module "are.na" {
   export default class Arena {
     constructor(options?: { accessToken?: string });
     channel(slug: string): {
-      get(): Promise<{
+      get(opts?: { page?: number; per?: number }): Promise<{
         title: string;
         contents: Array<{
           title?: string;
@@ -22,6 +22,8 @@ export interface ArenaChannel {
   skeleton: any[];
   can_index: boolean;
   nsfw: boolean;
+  // The API sends the nsfw flag under this name
+  "nsfw?"?: boolean;
   metadata: Record<string, any>;
   class: string;
 }
@@ -74,6 +76,11 @@ export interface ArenaItem {
     thumbnail_url?: string;
   };
   metadata?: Record<string, any>;
+  // Channel blocks only
+  slug?: string;
+  length?: number;
+  // Contents of a Channel block, when fetched as a site section
+  section?: ArenaChannel;
   connected_at: string;
   connected_by_username: string;
   connected_by_user_slug: string;
@@ -96,10 +103,19 @@ export interface ArenaItem {
 }
 
 export interface SlugMapping {
-  [slug: string]: {
+  [id: string]: {
     id: number;
+    slug: string;
     title: string;
     class: string;
     original_title: string;
+    // Slugs the block was published under before, oldest first
+    previous_slugs: string[];
   };
 }
+
+export interface ArenaCacheSnapshot {
+  channel: ArenaChannel;
+  lastChecked: string;
+  contentHash: string;
+}
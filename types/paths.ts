@@ -1,8 +1,29 @@
 // types/paths.ts
-// Auto-generated from Are.na channel
+// Auto-generated from Are.na channel by the build - do not edit by hand
 export const PATHS = {
-  "pink-sky": "/pink-sky",
-  "declarations-after": "/declarations-after",
+  "070725": "/070725",
+  "30062025": "/30062025",
+  "about": "/about",
+  "about-this-site": "/about-this-site",
+  "authors": "/authors",
+  "authors/ana": "/authors/ana",
+  "authors/margot": "/authors/margot",
+  "computer-movies": "/computer-movies",
+  "day-out-symposium-and-conference": "/day-out-symposium-and-conference",
+  "events": "/events",
+  "html-day": "/html-day",
+  "notes": "/notes",
+  "notes-for-2025-07-14": "/notes-for-2025-07-14",
+  "propagation": "/propagation",
+  "screening": "/screening",
+  "search": "/search",
+  "tags": "/tags",
+  "tags/event": "/tags/event",
+  "tags/navigation": "/tags/navigation",
+  "tags/notes": "/tags/notes",
+  "tags/plants": "/tags/plants",
+  "tags/trip": "/tags/trip",
+  "update-cms": "/update-cms",
 } as const;
 
 export type PagePath = keyof typeof PATHS;
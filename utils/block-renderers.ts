@@ -0,0 +1,162 @@
+import { marked } from "marked";
+import { escapeHtml, sanitizeUrl } from "./sanitize";
+import { BlockRenderer, RenderContext, RendererMatch } from "./renderers";
+
+/**
+ * The renderers for each Are.na block class that ship with the site. Their
+ * output is sanitised by processItemContent, like that of any renderer.
+ */
+
+/**
+ * Turns "Headline: ..." lines into h3 elements
+ * @param text Text of a block
+ * @returns Text with headlines replaced
+ */
+function renderHeadlines(text: string): string {
+  return text
+    .split("\n") // Split into lines
+    .map((line: string) => {
+      const headlineMatch = line.match(/^(headline|Headline):\s*(.*)$/);
+      if (headlineMatch) {
+        return `<h3>${escapeHtml(headlineMatch[2].trim())}</h3>`;
+      }
+      return line; // Return original line if no headline
+    })
+    .join("\n"); // Join lines back
+}
+
+function renderImage({ item }: RenderContext): string {
+  if (item.image && item.image.display && item.image.display.url) {
+    return `<img src="${sanitizeUrl(item.image.display.url)}" alt="${escapeHtml(item.title || "Arena image")}" class="item-image" />`;
+  }
+  return `<div class="error">Image URL not available</div>`;
+}
+
+/**
+ * Renders the structured JSON format some Text blocks are stored in
+ * @returns HTML, or an empty string if the content can't be parsed
+ */
+function renderStructuredText({ item }: RenderContext): string {
+  try {
+    const jsonContent = JSON.parse(item.content || "");
+
+    // Process each content block
+    const renderedBlocks = jsonContent
+      .map((block: any) => {
+        if (block.type === "text" && block.content && block.content.text) {
+          // Process text with markdown and headline handling
+          return marked.parse(renderHeadlines(block.content.text));
+        } else if (
+          block.type === "image" &&
+          block.content &&
+          block.content.src
+        ) {
+          // Process images
+          const caption = block.content.caption
+            ? `<figcaption>${escapeHtml(block.content.caption)}</figcaption>`
+            : "";
+          return `<figure>
+                  <img src="${sanitizeUrl(block.content.src)}" alt="${escapeHtml(block.content.alt || "")}" />
+                  ${caption}
+                </figure>`;
+        }
+        // Default case
+        return "";
+      })
+      .join("\n");
+
+    return `<div class="structured-content">${renderedBlocks}</div>`;
+  } catch (err) {
+    console.error(`Error parsing JSON content for item ${item.id}:`, err);
+    // Fall back to normal markdown processing
+    return "";
+  }
+}
+
+function renderText(context: RenderContext): string {
+  const { item } = context;
+  const content = item.content || "";
+
+  // Special handling for JSON format
+  if (content.startsWith("[") && content.includes('"type":')) {
+    const html = renderStructuredText(context);
+    if (html) return html;
+  }
+
+  // Standard markdown processing for non-JSON content
+  try {
+    // Handle headlines before markdown parsing, then convert markdown to HTML
+    const processedContent = marked.parse(renderHeadlines(content));
+    return `<div class="text-content">${processedContent}</div>`;
+  } catch (err) {
+    console.error(`Error parsing markdown for item ${item.id}:`, err);
+    // Fall back to plain text if markdown parsing fails
+    return `<div class="text-content">${escapeHtml(content)}</div>`;
+  }
+}
+
+function renderLink({ item }: RenderContext): string {
+  return `
+          <div class="link-content">
+            <h3><a href="${sanitizeUrl(item.source?.url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(item.title || item.source?.url || "Untitled Link")}</a></h3>
+            ${item.description ? `<p class="description">${escapeHtml(item.description)}</p>` : ""}
+            ${item.image ? `<img src="${sanitizeUrl(item.image.display?.url)}" alt="${escapeHtml(item.title || "Link preview")}" />` : ""}
+          </div>
+        `;
+}
+
+function renderAttachment({ item }: RenderContext): string {
+  if (item.attachment && item.attachment.url) {
+    return `
+            <div class="attachment-content">
+              <h3>${escapeHtml(item.title || "Attachment")}</h3>
+              <a href="${sanitizeUrl(item.attachment.url)}" class="download-link" download>Download Attachment</a>
+            </div>
+          `;
+  }
+  return `<div class="error">Attachment not available</div>`;
+}
+
+function renderMedia({ item }: RenderContext): string {
+  // Handle embedded media (like YouTube videos). The embed HTML is sanitised
+  // afterwards, so only iframes from the site's embed hosts survive
+  if (item.embed && item.embed.html) {
+    return `
+            <div class="media-embed">
+              ${item.embed.html}
+            </div>
+          `;
+  }
+  return `<div class="error">Media embed not available</div>`;
+}
+
+function renderChannel({ item }: RenderContext): string {
+  // Nested channels get their own section page, so only summarise here
+  return `
+          <div class="channel-content">
+            <h3>${escapeHtml(item.title || "Untitled Channel")}</h3>
+            <p class="channel-length">${item.section?.contents?.length ?? item.length ?? 0} blocks</p>
+          </div>
+        `;
+}
+
+function renderGeneric({ item }: RenderContext): string {
+  // Default case for unknown types
+  return `
+          <div class="generic-content">
+            ${item.title ? `<h3>${escapeHtml(item.title)}</h3>` : ""}
+            ${item.content ? `<div class="content">${escapeHtml(item.content)}</div>` : ""}
+            ${item.description ? `<div class="description">${escapeHtml(item.description)}</div>` : ""}
+          </div>
+        `;
+}
+
+export const BUILT_IN_RENDERERS: Array<[RendererMatch, BlockRenderer]> = [
+  [{}, renderGeneric],
+  [{ class: "Image" }, renderImage],
+  [{ class: "Text" }, renderText],
+  [{ class: "Link" }, renderLink],
+  [{ class: "Attachment" }, renderAttachment],
+  [{ class: "Media" }, renderMedia],
+  [{ class: "Channel" }, renderChannel],
+];
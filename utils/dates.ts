@@ -0,0 +1,283 @@
+/**
+ * Dates written by hand in block titles and descriptions, such as
+ * "2025-07-19 16:00", "19/07/2025" or "19 July 2025". They are kept as
+ * calendar fields in the site's time zone, and only converted to an instant
+ * with toZonedDate where the time zone matters.
+ */
+export interface ParsedDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  // Both undefined for dates without a time of day
+  hour?: number;
+  minute?: number;
+}
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const TIME = /(?:[ T,]+(?:at\s+)?(\d{1,2})[:.](\d{2}))?/.source;
+
+// Each pattern captures the date parts and an optional time
+const DATE_PATTERNS: Array<{
+  pattern: RegExp;
+  parts: (match: RegExpMatchArray) => [number, number, number];
+}> = [
+  {
+    // 2025-07-19
+    pattern: new RegExp(/(\d{4})-(\d{1,2})-(\d{1,2})/.source + TIME, "i"),
+    parts: (m) => [Number(m[1]), Number(m[2]), Number(m[3])],
+  },
+  {
+    // 19/07/2025, 19.07.25, 19-07-2025
+    pattern: new RegExp(
+      /(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})(?!\d)/.source + TIME,
+      "i",
+    ),
+    parts: (m) => [expandYear(m[4]), Number(m[3]), Number(m[1])],
+  },
+  {
+    // 19 July 2025, 19th of July 2025
+    pattern: new RegExp(
+      /(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?([a-z]{3,9})\s+(\d{4})/.source +
+        TIME,
+      "i",
+    ),
+    parts: (m) => [
+      Number(m[3]),
+      MONTHS.indexOf(m[2].substring(0, 3).toLowerCase()) + 1,
+      Number(m[1]),
+    ],
+  },
+];
+
+// 19th of July, 2 Aug, without a year
+const DAY_MONTH = /(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?([a-z]{3,9})\b/gi;
+
+/**
+ * Turns a two digit year into a year in this century
+ */
+function expandYear(year: string): number {
+  return year.length === 2 ? 2000 + Number(year) : Number(year);
+}
+
+/**
+ * Parses a date, optionally with a time, written in one of the supported
+ * formats
+ * @param text Text to parse
+ * @param search True to find a date anywhere in the text, e.g. in a title
+ * @returns The parsed date, or null if there is no valid date
+ */
+export function parseDate(text: string, search = false): ParsedDate | null {
+  const value = (text || "").trim();
+
+  for (const { pattern, parts } of DATE_PATTERNS) {
+    const match = value.match(pattern);
+    if (!match || match.index === undefined) continue;
+
+    // Outside search mode the date has to make up the whole value
+    if (!search && (match.index !== 0 || match[0].length !== value.length)) {
+      continue;
+    }
+
+    const [year, month, day] = parts(match);
+    const hour = match[match.length - 2];
+    const minute = match[match.length - 1];
+
+    const parsed: ParsedDate = { year, month, day };
+    if (hour !== undefined) {
+      parsed.hour = Number(hour);
+      parsed.minute = Number(minute);
+    }
+
+    if (isValidDate(parsed)) return parsed;
+  }
+
+  return null;
+}
+
+/**
+ * Finds a day and month written without a year, such as "19th of July" in a
+ * sentence, and places it in the year that puts it closest to a reference
+ * date, such as when the block was added
+ * @param text Text to search
+ * @param reference Date the day and month are close to
+ * @returns The date without a time, or null if there is none
+ */
+export function parseDayMonth(
+  text: string,
+  reference: Date,
+): ParsedDate | null {
+  const pattern = new RegExp(DAY_MONTH.source, DAY_MONTH.flags);
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text || "")) !== null) {
+    const month = MONTHS.indexOf(match[2].substring(0, 3).toLowerCase()) + 1;
+    const day = Number(match[1]);
+    if (month === 0) continue;
+
+    const year = reference.getUTCFullYear();
+    const candidates = [year - 1, year, year + 1]
+      .map((candidate) => ({ year: candidate, month, day }))
+      .filter(isValidDate);
+    if (candidates.length === 0) continue;
+
+    const distance = (date: ParsedDate) =>
+      Math.abs(toDate(date).getTime() - reference.getTime());
+    return candidates.reduce((closest, date) =>
+      distance(date) < distance(closest) ? date : closest,
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Parses a time of day on its own, such as the "18:00" in "End: 18:00"
+ * @param text Text to parse
+ * @param date Day the time falls on
+ * @returns The date with that time, or null if the text isn't a time
+ */
+export function parseTimeOn(text: string, date: ParsedDate): ParsedDate | null {
+  const match = (text || "").trim().match(/^(\d{1,2})[:.](\d{2})$/);
+  if (!match) return null;
+
+  const parsed: ParsedDate = {
+    year: date.year,
+    month: date.month,
+    day: date.day,
+    hour: Number(match[1]),
+    minute: Number(match[2]),
+  };
+  return isValidDate(parsed) ? parsed : null;
+}
+
+function isValidDate(date: ParsedDate): boolean {
+  const check = new Date(Date.UTC(date.year, date.month - 1, date.day));
+  return (
+    check.getUTCFullYear() === date.year &&
+    check.getUTCMonth() === date.month - 1 &&
+    check.getUTCDate() === date.day &&
+    (date.hour === undefined ||
+      (date.hour < 24 && date.minute !== undefined && date.minute < 60))
+  );
+}
+
+/**
+ * Converts a parsed date to a Date, treating its fields as UTC. Only use the
+ * result for ordering and comparisons, not for display.
+ * @param date Parsed date
+ * @param endOfDay For dates without a time, use the end of the day
+ * @returns Date for the parsed fields
+ */
+export function toDate(date: ParsedDate, endOfDay = false): Date {
+  if (date.hour === undefined && endOfDay) {
+    return new Date(Date.UTC(date.year, date.month - 1, date.day, 23, 59, 59));
+  }
+  return new Date(
+    Date.UTC(
+      date.year,
+      date.month - 1,
+      date.day,
+      date.hour ?? 0,
+      date.minute ?? 0,
+    ),
+  );
+}
+
+/**
+ * Gets how far a time zone is ahead of UTC at an instant
+ * @param time Instant in milliseconds
+ * @param timeZone IANA time zone
+ * @returns Offset in milliseconds
+ */
+function getTimeZoneOffset(time: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(time))) {
+    parts[type] = Number(value);
+  }
+
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return wallClock - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Converts a parsed date to the instant it stands for in a time zone, e.g.
+ * 16:00 in London in summer is 15:00 UTC
+ * @param date Parsed date, as written in the time zone
+ * @param timeZone IANA time zone
+ * @param endOfDay For dates without a time, use the end of the day
+ * @returns Date for that instant
+ */
+export function toZonedDate(
+  date: ParsedDate,
+  timeZone: string,
+  endOfDay = false,
+): Date {
+  const wallClock = toDate(date, endOfDay).getTime();
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  // Around a clock change the offset at the guess can differ
+  return new Date(wallClock - getTimeZoneOffset(guess, timeZone));
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+/**
+ * Formats a parsed date for a `datetime` attribute
+ * @param date Parsed date
+ * @returns "2025-07-19" or "2025-07-19T16:00"
+ */
+export function formatIsoDate(date: ParsedDate): string {
+  const day = `${pad(date.year, 4)}-${pad(date.month)}-${pad(date.day)}`;
+  return date.hour === undefined
+    ? day
+    : `${day}T${pad(date.hour)}:${pad(date.minute ?? 0)}`;
+}
+
+/**
+ * Formats a parsed date for people to read
+ * @param date Parsed date
+ * @returns E.g. "Saturday 19 July 2025, 16:00"
+ */
+export function formatReadableDate(date: ParsedDate): string {
+  const day = toDate(date).toLocaleDateString("en-GB", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+  return date.hour === undefined
+    ? day
+    : `${day}, ${pad(date.hour)}:${pad(date.minute ?? 0)}`;
+}
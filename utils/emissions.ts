@@ -0,0 +1,76 @@
+/**
+ * Estimates the energy use and emissions of page views with the Sustainable
+ * Web Design model (version 3): transferring data takes a fixed amount of
+ * energy per gigabyte across data centres, networks and devices, and the
+ * emissions follow from the carbon intensity of the electricity grid.
+ * Returning visitors have most of a page cached and load only part of it.
+ * See https://sustainablewebdesign.org/estimating-digital-emissions/
+ */
+
+/**
+ * Coefficients of the model, all configurable through the site config
+ */
+export interface EmissionsModel {
+  // Carbon intensity of the electricity grid, in g CO2e per kWh
+  gridIntensity: number;
+  // Energy used per gigabyte transferred, in kWh
+  energyPerGB: number;
+  // Share of views by returning visitors, between 0 and 1
+  returningVisitors: number;
+  // Share of a page returning visitors load again, between 0 and 1
+  returningData: number;
+}
+
+/**
+ * Energy use and emissions of one view of a page
+ */
+export interface Emissions {
+  // Energy in Wh
+  energy: number;
+  // Emissions in g CO2e
+  co2e: number;
+}
+
+// Sustainable Web Design v3 coefficients, with the global average grid
+export const DEFAULT_EMISSIONS_MODEL: EmissionsModel = {
+  gridIntensity: 442,
+  energyPerGB: 0.81,
+  returningVisitors: 0.25,
+  returningData: 0.02,
+};
+
+/**
+ * Estimates the energy use and emissions of one view of a page
+ * @param bytes Transfer size of the page with everything it loads
+ * @param model Coefficients of the model
+ * @returns Energy in Wh and emissions in g CO2e per view
+ */
+export function estimateEmissions(
+  bytes: number,
+  model: EmissionsModel = DEFAULT_EMISSIONS_MODEL,
+): Emissions {
+  // Average share of the page transferred per view
+  const transferred =
+    1 - model.returningVisitors + model.returningVisitors * model.returningData;
+  const kWh = (bytes / 1e9) * model.energyPerGB * transferred;
+
+  return { energy: kWh * 1000, co2e: kWh * model.gridIntensity };
+}
+
+/**
+ * Formats an amount to two significant digits, e.g. 0.094 or 1200
+ * @param amount Amount to format
+ * @returns Formatted amount
+ */
+export function formatAmount(amount: number): string {
+  return String(Number(amount.toPrecision(2)));
+}
+
+/**
+ * Formats emissions for display next to a page size
+ * @param emissions Energy use and emissions
+ * @returns e.g. "0.094 Wh, 0.041 g CO2e"
+ */
+export function formatEmissions(emissions: Emissions): string {
+  return `${formatAmount(emissions.energy)} Wh, ${formatAmount(emissions.co2e)} g CO2e`;
+}
@@ -0,0 +1,216 @@
+import { escapeHtml } from "./sanitize";
+
+/**
+ * A feed as a whole, shared by its RSS, Atom and JSON Feed versions
+ */
+export interface FeedInfo {
+  title: string;
+  description: string;
+  language: string;
+  // Absolute URL of the page the feed belongs to
+  homePageUrl: string;
+  // Absolute URLs of the feed in each format
+  rssUrl: string;
+  atomUrl: string;
+  jsonUrl: string;
+  // When the feed last changed, as an ISO date string
+  updated: string;
+}
+
+/**
+ * One entry of a feed
+ */
+export interface FeedEntry {
+  // Stable id, unchanged when the entry's page is renamed
+  id: string;
+  url: string;
+  title: string;
+  // Rendered HTML content, with absolute links
+  html: string;
+  // ISO date strings
+  published: string;
+  updated: string;
+  authors: FeedAuthor[];
+  categories: string[];
+  image?: string;
+}
+
+/**
+ * Author of a feed entry
+ */
+export interface FeedAuthor {
+  name: string;
+  url?: string;
+}
+
+/**
+ * Makes root-relative links and image sources in HTML absolute, as feed
+ * readers show entries away from the site
+ * @param html Rendered HTML
+ * @param siteUrl Base URL of the site, without a trailing slash
+ * @returns HTML with absolute URLs
+ */
+export function absolutiseUrls(html: string, siteUrl: string): string {
+  return html.replace(
+    /(\s(?:href|src)=")\/(?!\/)/g,
+    (_, attribute) => `${attribute}${siteUrl}/`,
+  );
+}
+
+/**
+ * Formats an ISO date string as an RFC 822 date, falling back to now for
+ * unreadable dates so the feed stays valid
+ */
+function toRfc822(date: string): string {
+  const parsed = new Date(date);
+  return (isNaN(parsed.getTime()) ? new Date() : parsed).toUTCString();
+}
+
+/**
+ * Formats an ISO date string as an RFC 3339 date, falling back to now
+ */
+function toRfc3339(date: string): string {
+  const parsed = new Date(date);
+  return (isNaN(parsed.getTime()) ? new Date() : parsed).toISOString();
+}
+
+/**
+ * Generates an RSS 2.0 feed
+ * @param feed The feed
+ * @param entries Entries, newest first
+ * @returns Contents of rss.xml
+ */
+export function generateRssFeed(feed: FeedInfo, entries: FeedEntry[]): string {
+  const items = entries.map((entry) => {
+    const lines = [
+      `    <item>`,
+      `      <title>${escapeHtml(entry.title)}</title>`,
+      `      <link>${escapeHtml(entry.url)}</link>`,
+      `      <guid isPermaLink="false">${escapeHtml(entry.id)}</guid>`,
+      `      <pubDate>${toRfc822(entry.published)}</pubDate>`,
+      ...entry.authors.map(
+        (author) =>
+          `      <dc:creator>${escapeHtml(author.name)}</dc:creator>`,
+      ),
+      ...entry.categories.map(
+        (category) => `      <category>${escapeHtml(category)}</category>`,
+      ),
+      `      <description>${escapeHtml(entry.html)}</description>`,
+      `    </item>`,
+    ];
+    return lines.join("\n");
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeHtml(feed.title)}</title>
+    <description>${escapeHtml(feed.description)}</description>
+    <link>${escapeHtml(feed.homePageUrl)}</link>
+    <atom:link href="${escapeHtml(feed.rssUrl)}" rel="self" type="application/rss+xml"/>
+    <language>${escapeHtml(feed.language)}</language>
+    <lastBuildDate>${toRfc822(feed.updated)}</lastBuildDate>
+${items.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+/**
+ * Generates an Atom feed
+ * @param feed The feed
+ * @param entries Entries, newest first
+ * @returns Contents of atom.xml
+ */
+export function generateAtomFeed(feed: FeedInfo, entries: FeedEntry[]): string {
+  const items = entries.map((entry) => {
+    const lines = [
+      `  <entry>`,
+      `    <id>${escapeHtml(entry.id)}</id>`,
+      `    <title>${escapeHtml(entry.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeHtml(entry.url)}"/>`,
+      `    <published>${toRfc3339(entry.published)}</published>`,
+      `    <updated>${toRfc3339(entry.updated)}</updated>`,
+      ...entry.authors.map((author) =>
+        author.url
+          ? `    <author><name>${escapeHtml(author.name)}</name><uri>${escapeHtml(author.url)}</uri></author>`
+          : `    <author><name>${escapeHtml(author.name)}</name></author>`,
+      ),
+      ...entry.categories.map(
+        (category) => `    <category term="${escapeHtml(category)}"/>`,
+      ),
+      `    <content type="html">${escapeHtml(entry.html)}</content>`,
+      `  </entry>`,
+    ];
+    return lines.join("\n");
+  });
+
+  // Atom requires an author on the feed if any entry lacks one
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeHtml(feed.language)}">
+  <id>${escapeHtml(feed.atomUrl)}</id>
+  <title>${escapeHtml(feed.title)}</title>
+  <subtitle>${escapeHtml(feed.description)}</subtitle>
+  <link rel="self" type="application/atom+xml" href="${escapeHtml(feed.atomUrl)}"/>
+  <link rel="alternate" type="text/html" href="${escapeHtml(feed.homePageUrl)}"/>
+  <updated>${toRfc3339(feed.updated)}</updated>
+  <author><name>${escapeHtml(feed.title)}</name></author>
+${items.join("\n")}
+</feed>
+`;
+}
+
+/**
+ * Generates a feed in JSON Feed 1.1 format
+ * @param feed The feed
+ * @param entries Entries, newest first
+ * @returns Contents of feed.json
+ */
+export function generateJsonFeed(feed: FeedInfo, entries: FeedEntry[]): string {
+  const json = {
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    description: feed.description || undefined,
+    home_page_url: feed.homePageUrl,
+    feed_url: feed.jsonUrl,
+    language: feed.language,
+    items: entries.map((entry) => ({
+      id: entry.id,
+      url: entry.url,
+      title: entry.title,
+      content_html: entry.html,
+      image: entry.image,
+      date_published: toRfc3339(entry.published),
+      date_modified: toRfc3339(entry.updated),
+      authors: entry.authors.length > 0 ? entry.authors : undefined,
+      tags: entry.categories.length > 0 ? entry.categories : undefined,
+    })),
+  };
+
+  return JSON.stringify(json, null, 2) + "\n";
+}
+
+/**
+ * Generates an OPML subscription list of feeds, for importing them into a
+ * feed reader in one go
+ * @param title Title of the list
+ * @param feeds Feeds to list, by their RSS version
+ * @returns Contents of the OPML file
+ */
+export function generateOpml(title: string, feeds: FeedInfo[]): string {
+  const outlines = feeds.map(
+    (feed) =>
+      `    <outline type="rss" text="${escapeHtml(feed.title)}" title="${escapeHtml(feed.title)}" xmlUrl="${escapeHtml(feed.rssUrl)}" htmlUrl="${escapeHtml(feed.homePageUrl)}"/>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body>
+${outlines.join("\n")}
+  </body>
+</opml>
+`;
+}
@@ -0,0 +1,162 @@
+import { ParsedDate, toZonedDate } from "./dates";
+
+/**
+ * One event in an iCalendar file
+ */
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  start: ParsedDate;
+  end?: ParsedDate;
+  location?: string;
+  url?: string;
+  description?: string;
+  // When the event was last changed, as an ISO date string
+  updatedAt: string;
+}
+
+/**
+ * Escapes text for an iCalendar property value
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds a content line so no line is longer than 75 octets
+ */
+function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = "";
+
+  for (const char of Array.from(line)) {
+    // Continuation lines start with a space, which counts towards the limit
+    if (Buffer.byteLength(current + char) > 75) {
+      lines.push(current);
+      current = " ";
+    }
+    current += char;
+  }
+  lines.push(current);
+
+  return lines.join("\r\n");
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+function formatDay(date: ParsedDate): string {
+  return `${pad(date.year, 4)}${pad(date.month)}${pad(date.day)}`;
+}
+
+/**
+ * Adds a day to a date, for the exclusive end of all-day events
+ */
+function nextDay(date: ParsedDate): ParsedDate {
+  const next = new Date(Date.UTC(date.year, date.month - 1, date.day + 1));
+  return {
+    year: next.getUTCFullYear(),
+    month: next.getUTCMonth() + 1,
+    day: next.getUTCDate(),
+  };
+}
+
+/**
+ * Formats a Date as a UTC timestamp
+ */
+function formatUtc(date: Date): string {
+  const valid = isNaN(date.getTime()) ? new Date(0) : date;
+  return valid.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Formats a date property. Times are converted from the site's time zone to
+ * UTC, so they show up at the right time in every calendar; days stay
+ * floating dates.
+ */
+function formatDateProperty(
+  name: string,
+  date: ParsedDate,
+  timeZone: string,
+): string {
+  if (date.hour === undefined) {
+    return `${name};VALUE=DATE:${formatDay(date)}`;
+  }
+  return `${name}:${formatUtc(toZonedDate(date, timeZone))}`;
+}
+
+/**
+ * Gets the DTEND of an event, if it can be expressed
+ */
+function formatEnd(
+  event: CalendarEvent,
+  timeZone: string,
+): string | undefined {
+  const allDay = event.start.hour === undefined;
+
+  if (allDay) {
+    // All-day events end at the start of the day after their last day
+    return formatDateProperty(
+      "DTEND",
+      nextDay(event.end ?? event.start),
+      timeZone,
+    );
+  }
+
+  // A timed start can only be combined with a timed end
+  return event.end && event.end.hour !== undefined
+    ? formatDateProperty("DTEND", event.end, timeZone)
+    : undefined;
+}
+
+/**
+ * Generates an iCalendar (RFC 5545) file
+ * @param events Events in the calendar
+ * @param name Name of the calendar shown by calendar apps
+ * @param timeZone Time zone the dates of the events are written in
+ * @returns Contents of the .ics file
+ */
+export function generateICalendar(
+  events: CalendarEvent[],
+  name: string,
+  timeZone: string,
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${escapeText(name)}//Are.na site build//EN`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtc(new Date(event.updatedAt))}`,
+      formatDateProperty("DTSTART", event.start, timeZone),
+    );
+
+    const end = formatEnd(event, timeZone);
+    if (end) lines.push(end);
+
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
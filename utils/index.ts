@@ -1,21 +1,107 @@
 import { ArenaItem } from "../types/arena-types";
 import { marked } from "marked";
+import { transliterate } from "./transliterate";
+import { escapeHtml, sanitizeHtml } from "./sanitize";
+import { renderBlock } from "./renderers";
+import { KNOWN_FIELD_PATTERN, parseItemMetadata } from "./metadata";
+import {
+  ParsedDate,
+  formatIsoDate,
+  formatReadableDate,
+  parseDate,
+  parseTimeOn,
+} from "./dates";
+import { SiteConfig } from "../scripts/site-config";
 
 export * from "./file";
+export * from "./transliterate";
+export * from "./timing";
+export * from "./sanitize";
+export * from "./metadata";
+export * from "./dates";
+export * from "./ical";
+export * from "./sitemap";
+export * from "./feed";
+export * from "./emissions";
+export * from "./size-report";
+export * from "./renderers";
+
+export interface SlugOptions {
+  // Letters with no Latin transliteration are kept as Unicode or stripped
+  unicode?: "keep" | "strip";
+  // Keep date titles such as "30/06/2025" readable as "30-06-2025"
+  preserveDates?: boolean;
+  // Slug to use when nothing usable is left of the input
+  fallback?: string;
+  // Maximum length of the slug
+  maxLength?: number;
+}
 
 /**
- * Generates a URL-friendly slug from a string
+ * Generates a URL-friendly slug from a string. Latin diacritics are folded,
+ * Cyrillic, Greek and kana are romanised, and the result is never empty.
  * @param str The string to convert to a slug
+ * @param options Options controlling Unicode and date handling
  * @returns A URL-friendly slug
  */
-export function generateSlug(str: string): string {
-  return str
-    .toLowerCase()
-    .replace(/[^\w\s-]/g, "") // Remove non-word chars
+export function generateSlug(str: string, options: SlugOptions = {}): string {
+  const {
+    unicode = "strip",
+    preserveDates = false,
+    fallback = "untitled",
+    maxLength = 100,
+  } = options;
+
+  let slug = transliterate(str || "")
+    .normalize("NFKD")
+    .replace(/([a-zA-Z])\p{M}+/gu, "$1") // Fold diacritics on Latin letters
+    .normalize("NFC")
+    .toLowerCase();
+
+  if (preserveDates) {
+    slug = slug.replace(/(\d)[/.](?=\d)/g, "$1-"); // Turn date separators into hyphens
+  }
+
+  slug = slug
+    .replace(
+      unicode === "keep" ? /[^\p{L}\p{N}\s_-]/gu : /[^a-z0-9\s_-]/g,
+      "",
+    ) // Remove non-word chars
     .replace(/[\s_-]+/g, "-") // Replace spaces, underscores and hyphens with a single hyphen
-    .replace(/^-+|-+$/g, "") // Remove leading/trailing hyphens
-    .replace(/^\d+[_-]/, "") // Remove leading numbers followed by underscore or hyphen
-    .substring(0, 100); // Limit length to 100 chars
+    .replace(/^-+|-+$/g, ""); // Remove leading/trailing hyphens
+
+  // Remove leading numbers followed by underscore or hyphen, unless it's a date
+  if (!(preserveDates && /^\d{1,4}-\d{1,2}-\d{1,4}(-|$)/.test(slug))) {
+    slug = slug.replace(/^\d+[_-]/, "");
+  }
+
+  slug = Array.from(slug) // Limit length without splitting surrogate pairs
+    .slice(0, maxLength)
+    .join("")
+    .replace(/-+$/, "");
+
+  return slug || fallback;
+}
+
+/**
+ * Generates the slug of a tag's page
+ * @param tag Tag as written in a block description
+ * @returns Slug of the tag page under /tags/
+ */
+export function getTagSlug(tag: string): string {
+  return generateSlug(tag.replace(/^#/, ""), {
+    unicode: "keep",
+    fallback: "tag",
+  });
+}
+
+/**
+ * Generates the slug of an author's page
+ * @param author Author name as written in a block description
+ * @returns Slug of the author page under /authors/
+ */
+export function getAuthorSlug(author: string): string {
+  return generateSlug(author, { fallback: "author" });
 }
 
 /**
@@ -86,177 +172,68 @@ export function extractColourFromDescription(description: string): {
 }
 
 /**
- * Processes content based on item type/class
+ * Where a block is rendered, for the renderers in utils/renderers.ts
+ */
+export interface ContentOptions {
+  // Slug of the block's page
+  slug?: string;
+  slugMap?: Map<string, ArenaItem>;
+  // Config of the site being built, with its embed hosts and URL
+  site: SiteConfig;
+}
+
+/**
+ * Renders the content of an item with the renderer registered for it
  * @param item The Arena item to process
+ * @param options Slug, slug map and site config passed to the renderer
  * @returns Processed HTML content
  */
-export async function processItemContent(item: ArenaItem): Promise<string> {
-  try {
-    let html = "";
-
-    switch (item.class) {
-      case "Image":
-        if (item.image && item.image.display && item.image.display.url) {
-          html = `<img src="${item.image.display.url}" alt="${item.title || "Arena image"}" class="item-image" />`;
-        } else {
-          html = `<div class="error">Image URL not available</div>`;
-        }
-        break;
-
-      case "Text":
-        // Parse the content as markdown if it's a text block
-        let processedContent = item.content || "";
-
-        // Special handling for JSON format
-        if (
-          processedContent.startsWith("[") &&
-          processedContent.includes('"type":')
-        ) {
-          try {
-            const jsonContent = JSON.parse(processedContent);
-
-            // Process each content block
-            const renderedBlocks = jsonContent
-              .map((block: any) => {
-                if (
-                  block.type === "text" &&
-                  block.content &&
-                  block.content.text
-                ) {
-                  // Process text with markdown and headline handling
-                  let textContent = block.content.text;
-                  textContent = textContent
-                    .split("\n") // Split into lines
-                    .map((line: string) => {
-                      const headlineMatch = line.match(
-                        /^(headline|Headline):\s*(.*)$/,
-                      );
-                      if (headlineMatch) {
-                        return `<h3>${headlineMatch[2].trim()}</h3>`;
-                      }
-                      return line; // Return original line if no headline
-                    })
-                    .join("\n"); // Join lines back
-                  return marked.parse(textContent);
-                } else if (
-                  block.type === "image" &&
-                  block.content &&
-                  block.content.src
-                ) {
-                  // Process images
-                  const caption = block.content.caption
-                    ? `<figcaption>${block.content.caption}</figcaption>`
-                    : "";
-                  return `<figure>
-                  <img src="${block.content.src}" alt="${block.content.alt || ""}" />
-                  ${caption}
-                </figure>`;
-                }
-                // Default case
-                return "";
-              })
-              .join("\n");
-
-            html = `<div class="structured-content">${renderedBlocks}</div>`;
-          } catch (err) {
-            console.error(
-              `Error parsing JSON content for item ${item.id}:`,
-              err,
-            );
-            // Fall back to normal markdown processing
-          }
-        }
-
-        // Standard markdown processing for non-JSON content
-        if (!html && typeof processedContent === "string") {
-          try {
-            // Handle headlines before markdown parsing
-            processedContent = processedContent
-              .split("\n") // Split into lines
-              .map((line: string) => {
-                const headlineMatch = line.match(
-                  /^(headline|Headline):\s*(.*)$/,
-                );
-                if (headlineMatch) {
-                  return `<h3>${headlineMatch[2].trim()}</h3>`;
-                }
-                return line; // Return original line if no headline
-              })
-              .join("\n"); // Join lines back
-
-            // Convert markdown to HTML
-            processedContent = marked.parse(processedContent);
-            html = `<div class="text-content">${processedContent}</div>`;
-          } catch (err) {
-            console.error(`Error parsing markdown for item ${item.id}:`, err);
-            // Fall back to plain text if markdown parsing fails
-            html = `<div class="text-content">${processedContent}</div>`;
-          }
-        }
-        break;
-
-      case "Link":
-        html = `
-          <div class="link-content">
-            <h3><a href="${item.source?.url || "#"}" target="_blank" rel="noopener noreferrer">${item.title || item.source?.url || "Untitled Link"}</a></h3>
-            ${item.description ? `<p class="description">${item.description}</p>` : ""}
-            ${item.image ? `<img src="${item.image.display?.url}" alt="${item.title || "Link preview"}" />` : ""}
-          </div>
-        `;
-        break;
-
-      case "Attachment":
-        if (item.attachment && item.attachment.url) {
-          html = `
-            <div class="attachment-content">
-              <h3>${item.title || "Attachment"}</h3>
-              <a href="${item.attachment.url}" class="download-link" download>Download Attachment</a>
-            </div>
-          `;
-        } else {
-          html = `<div class="error">Attachment not available</div>`;
-        }
-        break;
-
-      case "Media":
-        // Handle embedded media (like YouTube videos)
-        if (item.embed && item.embed.html) {
-          html = `
-            <div class="media-embed">
-              ${item.embed.html}
-            </div>
-          `;
-        } else {
-          html = `<div class="error">Media embed not available</div>`;
-        }
-        break;
-
-      default:
-        // Default case for unknown types
-        html = `
-          <div class="generic-content">
-            ${item.title ? `<h3>${item.title}</h3>` : ""}
-            ${item.content ? `<div class="content">${item.content}</div>` : ""}
-            ${item.description ? `<div class="description">${item.description}</div>` : ""}
-          </div>
-        `;
-        break;
-    }
+export async function processItemContent(
+  item: ArenaItem,
+  options: ContentOptions,
+): Promise<string> {
+  const { site } = options;
 
-    // Apply target="_blank" to all external links before returning the content
-    return addTargetBlankToExternalLinks(html);
+  try {
+    const html = await renderBlock({
+      item,
+      slug: options.slug ?? "",
+      slugMap: options.slugMap ?? new Map(),
+      site,
+    });
+
+    // Markdown and embeds can carry arbitrary HTML, so sanitise the result,
+    // then apply target="_blank" to all external links before returning it
+    return addTargetBlankToExternalLinks(
+      sanitizeHtml(html, { iframeHosts: site.embedHosts }),
+    );
   } catch (err) {
     console.error(`Error processing content for item ${item.id}:`, err);
-    return `<div class="error">Error processing content: ${err instanceof Error ? err.message : "Unknown error"}</div>`;
+    return `<div class="error">Error processing content: ${escapeHtml(err instanceof Error ? err.message : "Unknown error")}</div>`;
   }
 }
 
+/**
+ * Gets the link of a tag: its page, or the home page filtered by the tag
+ * when tag pages are switched off
+ */
+function getTagHref(tag: string, site: SiteConfig): string {
+  return site.features.tags
+    ? `/tags/${getTagSlug(tag)}/`
+    : `/#${encodeURIComponent(tag)}`;
+}
+
 /**
  * Processes item description text to extract description and format other lines
  * @param description The raw description text to process
+ * @param site Site config, tags and authors only link to their pages when
+ * those are generated
  * @returns Processed HTML content with description and formatted lines
  */
-export function processItemDescription(description: string): {
+export function processItemDescription(
+  description: string,
+  site: SiteConfig,
+): {
   html: string;
   isPinned: boolean;
 } {
@@ -273,6 +250,9 @@ export function processItemDescription(description: string): {
   // Collect metadata fields
   const metadataFields: string[] = [];
 
+  // Start of an event, which an End field with only a time refers to
+  const eventStart = parseDate(parseItemMetadata(description).fields.date);
+
   // First pass - separate metadata from content
   for (const line of lines) {
     const trimmedLine = line.trim();
@@ -284,8 +264,7 @@ export function processItemDescription(description: string): {
     }
 
     // Check if the line matches a known metadata field
-    const metadataPattern = /^(pin|colour|tags|border|authors?):\s*(.+)$/i;
-    const descriptionMatch = trimmedLine.match(metadataPattern);
+    const descriptionMatch = trimmedLine.match(KNOWN_FIELD_PATTERN);
 
     if (descriptionMatch) {
       const key = descriptionMatch[1].trim().toLowerCase(); // Only lowercase the key
@@ -295,9 +274,9 @@ export function processItemDescription(description: string): {
       if (key === "pin" && value.toLowerCase() === "top") {
         isPinned = true;
         // Don't include in output
-      } else if (key === "colour" || key === "border") {
+      } else if (key === "colour" || key === "border" || key === "bio") {
         // Don't include these in output
-      } else if (key === "tags") {
+      } else if (key === "tag" || key === "tags") {
         const tags = value
           .split(",")
           .map((tag) => tag.trim())
@@ -314,7 +293,7 @@ export function processItemDescription(description: string): {
             const tagLinks = tags
               .map(
                 (tag) =>
-                  `<a href="/#${encodeURIComponent(tag)}" class="tag-link">#${tag}</a>`,
+                  `<a href="${getTagHref(tag, site)}" class="tag-link">#${escapeHtml(tag)}</a>`,
               )
               .join(" ");
             metadataFields.push(
@@ -325,7 +304,7 @@ export function processItemDescription(description: string): {
             const tagLinks = tags
               .map(
                 (tag) =>
-                  `<a href="/#${encodeURIComponent(tag)}" class="tag-link">#${tag}</a>`,
+                  `<a href="${getTagHref(tag, site)}" class="tag-link">#${escapeHtml(tag)}</a>`,
               )
               .join(" ");
             metadataFields.push(
@@ -333,6 +312,20 @@ export function processItemDescription(description: string): {
             );
           }
         }
+      } else if (key === "date" || key === "end") {
+        const date =
+          key === "date"
+            ? eventStart
+            : (parseDate(value) ??
+              (eventStart ? parseTimeOn(value, eventStart) : null));
+
+        metadataFields.push(
+          `<div class="description-field date-field"><span class="description-key">${key === "date" ? "Date" : "End"}:</span> ${date ? formatTimeElement(date) : escapeHtml(value)}</div>`,
+        );
+      } else if (key === "location") {
+        metadataFields.push(
+          `<div class="description-field location-field"><span class="description-key">Location:</span> ${escapeHtml(value)}</div>`,
+        );
       } else if (key === "author" || key === "authors") {
         const authors = value
           .split(",")
@@ -341,9 +334,10 @@ export function processItemDescription(description: string): {
 
         if (authors.length > 0) {
           const authorLinks = authors
-            .map(
-              (author) =>
-                `<a href="/${encodeURIComponent(author)}">${author}</a>`,
+            .map((author) =>
+              site.features.authors
+                ? `<a href="/authors/${getAuthorSlug(author)}/">${escapeHtml(author)}</a>`
+                : escapeHtml(author),
             )
             .join(", ");
           metadataFields.push(
@@ -363,7 +357,9 @@ export function processItemDescription(description: string): {
   if (markdownContent.trim() !== "") {
     // Remove consecutive newlines (more than 2) to clean up the spacing
     const cleanedMarkdown = markdownContent.replace(/\n{3,}/g, "\n\n").trim();
-    processedMarkdown = marked.parse(cleanedMarkdown);
+    processedMarkdown = sanitizeHtml(marked.parse(cleanedMarkdown), {
+      iframeHosts: site.embedHosts,
+    });
   }
 
   // Combine metadata fields and markdown content
@@ -383,6 +379,15 @@ export function processItemDescription(description: string): {
   };
 }
 
+/**
+ * Renders a parsed date as a time element
+ * @param date Parsed date
+ * @returns HTML time element with a machine-readable datetime
+ */
+export function formatTimeElement(date: ParsedDate): string {
+  return `<time datetime="${formatIsoDate(date)}">${escapeHtml(formatReadableDate(date))}</time>`;
+}
+
 /**
  * Formats a date string into a human-readable format
  * @param dateString ISO format date string
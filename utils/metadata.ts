@@ -0,0 +1,69 @@
+/**
+ * Metadata fields written as "Key: value" lines in block descriptions
+ */
+export interface ItemMetadata {
+  // Field values keyed by lower-cased field name, e.g. { colour: "red" }
+  fields: Record<string, string>;
+  // Lower-cased tags from the Tags field
+  tags: string[];
+  // Names from the Author or Authors field
+  authors: string[];
+}
+
+const FIELD_PATTERN = /^([a-z][a-z -]*?):\s*(.+)$/i;
+
+// Fields the build reads, which are rendered as fields by
+// processItemDescription rather than as part of the description text
+export const KNOWN_FIELD_PATTERN =
+  /^(pin|colour|tags?|border|authors?|bio|date|end|location):\s*(.+)$/i;
+
+/**
+ * Splits a comma separated field into its values
+ */
+function splitList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "");
+}
+
+/**
+ * Reads the "Key: value" fields, tags and authors from a block description.
+ * Only the first line for each key counts.
+ * @param description The raw description text
+ * @returns Fields, tags and authors of the block
+ */
+export function parseItemMetadata(description?: string): ItemMetadata {
+  const fields: Record<string, string> = {};
+
+  for (const line of (description || "").split("\n")) {
+    const match = line.trim().match(FIELD_PATTERN);
+    if (!match) continue;
+
+    const key = match[1].trim().toLowerCase();
+    if (!(key in fields)) {
+      fields[key] = match[2].trim();
+    }
+  }
+
+  const tags = splitList(fields.tags ?? fields.tag)
+    .map((tag) => tag.replace(/^#/, "").toLowerCase())
+    .filter((tag) => tag !== "");
+
+  const authors = splitList(fields.authors ?? fields.author);
+
+  return { fields, tags, authors };
+}
+
+/**
+ * Removes the lines holding known metadata fields from a description
+ * @param description The raw description text
+ * @returns The rest of the description
+ */
+export function getDescriptionText(description?: string): string {
+  return (description || "")
+    .split("\n")
+    .filter((line) => !KNOWN_FIELD_PATTERN.test(line.trim()))
+    .join("\n")
+    .trim();
+}
@@ -0,0 +1,171 @@
+import fs from "fs";
+import path from "path";
+import { ArenaItem } from "../types/arena-types";
+import { SiteConfig } from "../scripts/site-config";
+import { ItemMetadata, parseItemMetadata } from "./metadata";
+import { BUILT_IN_RENDERERS } from "./block-renderers";
+
+/**
+ * Registry of the functions turning Are.na blocks into HTML. Renderers are
+ * matched by block class, tag and metadata fields; the most specific match
+ * wins, and among equally specific ones the last registered. The built-in
+ * renderers are registered first, so project renderers override them.
+ */
+
+/**
+ * Everything a renderer gets to know about the block it renders
+ */
+export interface RenderContext {
+  item: ArenaItem;
+  // Slug of the block's page, "" if it doesn't have one
+  slug: string;
+  slugMap: Map<string, ArenaItem>;
+  site: SiteConfig;
+  metadata: ItemMetadata;
+  // Renders the block with the renderer this one took precedence over
+  next: () => Promise<string>;
+}
+
+export type BlockRenderer = (
+  context: RenderContext,
+) => string | Promise<string>;
+
+/**
+ * Which blocks a renderer applies to. Every given condition has to match;
+ * a renderer without conditions applies to all blocks.
+ */
+export interface RendererMatch {
+  // Block class or classes, e.g. "Text" or ["Image", "Link"]
+  class?: string | string[];
+  // Tag from the block's Tags field, case-insensitive
+  tag?: string;
+  // Metadata fields and their values, or true for any value
+  metadata?: Record<string, string | true>;
+}
+
+interface RendererRegistration {
+  match: RendererMatch;
+  render: BlockRenderer;
+  specificity: number;
+  order: number;
+}
+
+const registrations: RendererRegistration[] = [];
+
+/**
+ * Registers a block renderer
+ * @param match Block class, or conditions the block has to match
+ * @param render Function rendering the block to HTML
+ */
+export function registerRenderer(
+  match: RendererMatch | string,
+  render: BlockRenderer,
+): void {
+  const conditions = typeof match === "string" ? { class: match } : match;
+
+  // Tags and metadata are narrower than a class, which is narrower than nothing
+  const specificity =
+    (conditions.class ? 1 : 0) +
+    (conditions.tag ? 2 : 0) +
+    Object.keys(conditions.metadata ?? {}).length * 2;
+
+  registrations.push({
+    match: conditions,
+    render,
+    specificity,
+    order: registrations.length,
+  });
+}
+
+/**
+ * Checks whether a block meets the conditions of a renderer
+ */
+function matches(
+  match: RendererMatch,
+  item: ArenaItem,
+  metadata: ItemMetadata,
+): boolean {
+  if (match.class) {
+    const classes = Array.isArray(match.class) ? match.class : [match.class];
+    if (!classes.includes(item.class)) return false;
+  }
+
+  if (match.tag && !metadata.tags.includes(match.tag.toLowerCase())) {
+    return false;
+  }
+
+  for (const [key, expected] of Object.entries(match.metadata ?? {})) {
+    const value = metadata.fields[key.toLowerCase()];
+    if (value === undefined) return false;
+    if (expected !== true && value.toLowerCase() !== expected.toLowerCase()) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Renders a block with the most specific renderer registered for it
+ * @param context The block and the site it is rendered for
+ * @returns Rendered HTML, not yet sanitised
+ */
+export async function renderBlock(
+  context: Omit<RenderContext, "metadata" | "next">,
+): Promise<string> {
+  const metadata = parseItemMetadata(context.item.description);
+
+  const candidates = registrations
+    .filter((registration) =>
+      matches(registration.match, context.item, metadata),
+    )
+    .sort((a, b) => b.specificity - a.specificity || b.order - a.order);
+
+  const renderFrom = async (index: number): Promise<string> => {
+    if (index >= candidates.length) return "";
+
+    return candidates[index].render({
+      ...context,
+      metadata,
+      next: () => renderFrom(index + 1),
+    });
+  };
+
+  return renderFrom(0);
+}
+
+/**
+ * Loads the project's own renderers, which register themselves on import
+ * @param directory Directory of renderer modules
+ * @returns Names of the loaded modules
+ */
+export async function loadRendererModules(
+  directory: string,
+): Promise<string[]> {
+  if (!fs.existsSync(directory)) return [];
+
+  const files = fs
+    .readdirSync(directory)
+    .filter((file) => /\.(ts|js)$/.test(file) && !file.endsWith(".d.ts"))
+    .sort();
+
+  for (const file of files) {
+    try {
+      await import(path.join(directory, file));
+    } catch (err) {
+      throw new Error(
+        `Failed to load renderer module ${file}: ${err instanceof Error ? err.message : err}`,
+      );
+    }
+  }
+
+  if (files.length > 0) {
+    console.log(`Loaded renderers from ${files.join(", ")}`);
+  }
+
+  return files;
+}
+
+for (const [match, render] of BUILT_IN_RENDERERS) {
+  registerRenderer(match, render);
+}
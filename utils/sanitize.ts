@@ -0,0 +1,299 @@
+import { JSDOM } from "jsdom";
+
+/**
+ * Escaping and sanitisation for content coming from Are.na. Anyone who can
+ * add blocks to the channel can put markup in titles, descriptions, text
+ * and embeds, so everything is escaped or allowlisted before it is rendered.
+ */
+
+// Hosts iframes may be embedded from, e.g. for Media blocks
+export const DEFAULT_IFRAME_HOSTS = [
+  "www.youtube.com",
+  "www.youtube-nocookie.com",
+  "player.vimeo.com",
+  "w.soundcloud.com",
+  "bandcamp.com",
+  "open.spotify.com",
+];
+
+export interface SanitizeOptions {
+  // Hosts iframes are allowed from, all other iframes are removed
+  iframeHosts?: string[];
+}
+
+// Elements kept as they are, minus any attributes not listed below
+const ALLOWED_ELEMENTS = new Set([
+  "a",
+  "abbr",
+  "b",
+  "blockquote",
+  "br",
+  "caption",
+  "cite",
+  "code",
+  "dd",
+  "del",
+  "details",
+  "div",
+  "dl",
+  "dt",
+  "em",
+  "figcaption",
+  "figure",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "hr",
+  "i",
+  "iframe",
+  "img",
+  "ins",
+  "kbd",
+  "li",
+  "mark",
+  "ol",
+  "p",
+  "pre",
+  "q",
+  "s",
+  "small",
+  "span",
+  "strong",
+  "sub",
+  "summary",
+  "sup",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+  "u",
+  "ul",
+]);
+
+// Elements removed together with everything inside them. Anything else not
+// allowed is unwrapped, keeping its text.
+const DROPPED_ELEMENTS = new Set([
+  "applet",
+  "base",
+  "button",
+  "embed",
+  "form",
+  "frame",
+  "frameset",
+  "input",
+  "link",
+  "math",
+  "meta",
+  "noscript",
+  "object",
+  "script",
+  "select",
+  "style",
+  "svg",
+  "template",
+  "textarea",
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(["class", "title", "lang", "dir"]);
+
+const ALLOWED_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(["href", "name", "target", "rel", "download"]),
+  img: new Set(["src", "alt", "width", "height", "loading"]),
+  iframe: new Set([
+    "src",
+    "width",
+    "height",
+    "allow",
+    "allowfullscreen",
+    "frameborder",
+    "loading",
+    "referrerpolicy",
+  ]),
+  ol: new Set(["start", "reversed"]),
+  td: new Set(["colspan", "rowspan", "align"]),
+  th: new Set(["colspan", "rowspan", "align", "scope"]),
+};
+
+const URL_ATTRIBUTES = new Set(["href", "src"]);
+
+// A single document is reused for parsing, creating one per call is slow
+let parserDocument: Document | undefined;
+
+/**
+ * Escapes text for use in HTML (or XML) text and attribute values
+ * @param value Value to escape
+ * @returns Escaped string
+ */
+export function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Checks that a URL uses a safe scheme (http, https, mailto) or is relative
+ * @param url URL to check
+ * @returns True if the URL is safe to link to
+ */
+export function isSafeUrl(url: string): boolean {
+  // Browsers ignore whitespace and control characters in schemes
+  const normalised = url.replace(/[\u0000-\u0020\u007f]/g, "").toLowerCase();
+  const scheme = normalised.match(/^([a-z][a-z0-9+.-]*):/);
+
+  return !scheme || ["http", "https", "mailto"].includes(scheme[1]);
+}
+
+/**
+ * Makes a URL safe to put in an attribute, replacing unsafe ones with "#"
+ * @param url URL to sanitise
+ * @returns Attribute-escaped URL
+ */
+export function sanitizeUrl(url: string | undefined): string {
+  if (!url || !isSafeUrl(url)) return "#";
+  return escapeHtml(url.trim());
+}
+
+/**
+ * Removes anything that could break out of a CSS value in a style attribute
+ * @param value Colour or other CSS value from a description field
+ * @returns The value, or an empty string if it contains unsafe characters
+ */
+export function sanitizeCssValue(value: string): string {
+  return /^[#\w\s(),.%-]+$/.test(value) ? value.trim() : "";
+}
+
+/**
+ * Sanitises HTML against an allowlist of elements and attributes. Scripts,
+ * event handlers, unsafe URLs and iframes from unlisted hosts are removed.
+ * @param html HTML to sanitise
+ * @param options Sanitiser options
+ * @returns Sanitised HTML
+ */
+export function sanitizeHtml(
+  html: string,
+  options: SanitizeOptions = {},
+): string {
+  if (!html) return "";
+
+  const iframeHosts = options.iframeHosts ?? getConfiguredIframeHosts();
+
+  const template = parseFragment(html);
+  sanitizeChildren(template.content, iframeHosts);
+
+  return template.innerHTML;
+}
+
+/**
+ * Reduces HTML to its text, e.g. for the search index
+ * @param html HTML to strip
+ * @returns Text with whitespace collapsed
+ */
+export function stripHtml(html: string): string {
+  if (!html) return "";
+
+  // Space out tags so text from neighbouring blocks doesn't run together
+  const template = parseFragment(html.replace(/</g, " <"));
+  return (template.content.textContent || "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Parses HTML into a template element without running anything in it
+ */
+function parseFragment(html: string): HTMLTemplateElement {
+  if (!parserDocument) {
+    parserDocument = new JSDOM("").window.document;
+  }
+
+  const template = parserDocument.createElement("template");
+  template.innerHTML = html;
+  return template;
+}
+
+/**
+ * Gets the iframe hosts from EMBED_HOSTS, falling back to the defaults
+ * @returns Hosts iframes are allowed from
+ */
+export function getConfiguredIframeHosts(): string[] {
+  const configured = process.env.EMBED_HOSTS;
+  if (!configured) return DEFAULT_IFRAME_HOSTS;
+
+  return configured
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter((host) => host !== "");
+}
+
+function sanitizeChildren(parent: Node, iframeHosts: string[]): void {
+  for (const child of Array.from(parent.childNodes)) {
+    // Text (3) is kept, comments and everything else but elements dropped
+    if (child.nodeType === 3) continue;
+    if (child.nodeType !== 1) {
+      parent.removeChild(child);
+      continue;
+    }
+
+    const element = child as Element;
+    const tag = element.tagName.toLowerCase();
+
+    if (
+      DROPPED_ELEMENTS.has(tag) ||
+      (tag === "iframe" && !isAllowedIframe(element, iframeHosts))
+    ) {
+      parent.removeChild(element);
+      continue;
+    }
+
+    sanitizeChildren(element, iframeHosts);
+
+    if (!ALLOWED_ELEMENTS.has(tag)) {
+      // Keep the content of unknown elements, but not the element itself
+      while (element.firstChild) {
+        parent.insertBefore(element.firstChild, element);
+      }
+      parent.removeChild(element);
+      continue;
+    }
+
+    for (const attribute of Array.from(element.attributes)) {
+      const name = attribute.name.toLowerCase();
+      const allowed =
+        GLOBAL_ATTRIBUTES.has(name) || ALLOWED_ATTRIBUTES[tag]?.has(name);
+
+      if (
+        !allowed ||
+        (URL_ATTRIBUTES.has(name) && !isSafeUrl(attribute.value))
+      ) {
+        element.removeAttribute(attribute.name);
+      }
+    }
+
+    // Links opening a new tab must not get a handle on this window
+    if (tag === "a" && element.getAttribute("target")) {
+      element.setAttribute("rel", "noopener noreferrer");
+    }
+  }
+}
+
+function isAllowedIframe(element: Element, iframeHosts: string[]): boolean {
+  const src = element.getAttribute("src");
+  if (!src) return false;
+
+  try {
+    const url = new URL(src, "https://invalid.local");
+    return (
+      (url.protocol === "https:" || url.protocol === "http:") &&
+      iframeHosts.includes(url.hostname.toLowerCase())
+    );
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,69 @@
+import { escapeHtml } from "./sanitize";
+
+/**
+ * One page in the sitemap
+ */
+export interface SitemapEntry {
+  // Absolute URL of the page
+  url: string;
+  // When the page last changed, as an ISO date string
+  lastmod?: string;
+}
+
+/**
+ * Options for robots.txt
+ */
+export interface RobotsOptions {
+  // Whether crawlers may index the site at all
+  indexable: boolean;
+  // Paths crawlers should stay out of
+  disallow: string[];
+  // Absolute URL of the sitemap
+  sitemapUrl?: string;
+}
+
+/**
+ * Generates a sitemap (sitemaps.org protocol)
+ * @param entries Pages of the site
+ * @returns Contents of sitemap.xml
+ */
+export function generateSitemap(entries: SitemapEntry[]): string {
+  const urls = entries.map((entry) => {
+    const lastmod =
+      entry.lastmod && !isNaN(new Date(entry.lastmod).getTime())
+        ? `\n    <lastmod>${new Date(entry.lastmod).toISOString()}</lastmod>`
+        : "";
+    return `  <url>\n    <loc>${escapeHtml(entry.url)}</loc>${lastmod}\n  </url>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join("\n")}
+</urlset>
+`;
+}
+
+/**
+ * Generates robots.txt. Sites that must not be indexed disallow everything.
+ * @param options Robots options
+ * @returns Contents of robots.txt
+ */
+export function generateRobotsTxt(options: RobotsOptions): string {
+  const lines = ["User-agent: *"];
+
+  if (!options.indexable) {
+    lines.push("Disallow: /");
+  } else if (options.disallow.length === 0) {
+    lines.push("Disallow:");
+  } else {
+    for (const entry of options.disallow) {
+      lines.push(`Disallow: ${entry.startsWith("/") ? entry : `/${entry}`}`);
+    }
+  }
+
+  if (options.indexable && options.sitemapUrl) {
+    lines.push("", `Sitemap: ${options.sitemapUrl}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,333 @@
+/**
+ * Checks measured page sizes against the site's budgets and reports them
+ */
+
+import { SizeBudgets } from "../scripts/site-config";
+import {
+  Emissions,
+  EmissionsModel,
+  estimateEmissions,
+  formatEmissions,
+} from "./emissions";
+
+// Number of pages and resources listed in the console table
+const HEAVIEST_COUNT = 10;
+
+/**
+ * A file loaded by a page, with its transfer size in bytes
+ */
+export interface ResourceSize {
+  type: string;
+  path: string;
+  size: number;
+  external?: boolean;
+  // Whether the size is the one Arena gives for an external image rather
+  // than measured
+  estimated?: boolean;
+}
+
+/**
+ * A measured page: its path on the site, its transfer size in bytes with
+ * everything it loads, and those resources including the page itself
+ */
+export interface PageSize {
+  page: string;
+  size: number;
+  resources: ResourceSize[];
+  // Whether the size includes estimates
+  estimated: boolean;
+  // External images of unknown size, left out of the size
+  unmeasured: string[];
+}
+
+/**
+ * A budget a page or the whole site goes over
+ */
+export interface BudgetViolation {
+  // "page", "types.<type>" or "total"
+  budget: string;
+  // Path of the page, except for the total budget
+  page?: string;
+  // Budget and actual size in bytes
+  limit: number;
+  actual: number;
+}
+
+/**
+ * The contents of size-report.json. Sizes are in bytes, budgets in KB as
+ * they are configured.
+ */
+export interface SizeReport {
+  url: string;
+  generatedAt: string;
+  pageCount: number;
+  // Pages whose size includes estimates
+  estimatedPages: number;
+  // External images of unknown size, left out of every size and budget,
+  // with the number of pages loading them
+  unmeasured: Array<{ url: string; pages: number }>;
+  totalSize: number;
+  averageSize: number;
+  budgets: SizeBudgets;
+  violations: BudgetViolation[];
+  // Energy use and emissions of one view of every page, and of an average
+  // page, with the model they were estimated with
+  emissionsModel: EmissionsModel;
+  totalEmissions: Emissions;
+  averageEmissions: Emissions;
+  // Heaviest first, with the size of each resource type and the estimated
+  // energy use and emissions of a view
+  pages: Array<
+    PageSize & { types: Record<string, number>; emissions: Emissions }
+  >;
+  // Every resource once, heaviest first, with the number of pages loading it
+  resources: Array<ResourceSize & { pages: number }>;
+  // The page about the site, which reports the totals above and so is left
+  // out of them, though it is checked against the page budgets
+  aboutPage?: PageSize & { types: Record<string, number>; emissions: Emissions };
+}
+
+function formatKB(bytes: number, estimated = false): string {
+  return `${estimated ? "~" : ""}${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * Adds up the resources of a page by type
+ * @param page Measured page
+ * @returns Bytes of each resource type
+ */
+function getTypeSizes(page: PageSize): Record<string, number> {
+  const types: Record<string, number> = {};
+  for (const resource of page.resources) {
+    types[resource.type] = (types[resource.type] ?? 0) + resource.size;
+  }
+  return types;
+}
+
+/**
+ * Checks measured pages against page-weight budgets
+ * @param pages Measured pages
+ * @param budgets Budgets in KB
+ * @returns Every budget gone over, by page
+ */
+export function checkBudgets(
+  pages: PageSize[],
+  budgets: SizeBudgets,
+): BudgetViolation[] {
+  const violations: BudgetViolation[] = [];
+
+  for (const page of pages) {
+    if (budgets.page && page.size > budgets.page * 1024) {
+      violations.push({
+        budget: "page",
+        page: page.page,
+        limit: budgets.page * 1024,
+        actual: page.size,
+      });
+    }
+
+    const types = getTypeSizes(page);
+    for (const [type, limit] of Object.entries(budgets.types ?? {})) {
+      if ((types[type] ?? 0) > limit * 1024) {
+        violations.push({
+          budget: `types.${type}`,
+          page: page.page,
+          limit: limit * 1024,
+          actual: types[type],
+        });
+      }
+    }
+  }
+
+  const totalSize = pages.reduce((sum, page) => sum + page.size, 0);
+  if (budgets.total && totalSize > budgets.total * 1024) {
+    violations.push({
+      budget: "total",
+      limit: budgets.total * 1024,
+      actual: totalSize,
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Builds the size report of a site
+ * @param url URL of the site
+ * @param pages Measured pages
+ * @param budgets Budgets of the site
+ * @param emissionsModel Model for the energy and emissions estimates
+ * @returns Size report
+ */
+export function buildSizeReport(
+  url: string,
+  pages: PageSize[],
+  budgets: SizeBudgets,
+  emissionsModel: EmissionsModel,
+): SizeReport {
+  const totalSize = pages.reduce((sum, page) => sum + page.size, 0);
+  const averageSize =
+    pages.length > 0 ? Math.round(totalSize / pages.length) : 0;
+
+  // Shared resources like the stylesheet are listed once
+  const resources = new Map<string, ResourceSize & { pages: number }>();
+  const unmeasured = new Map<string, number>();
+  for (const page of pages) {
+    for (const url of page.unmeasured) {
+      unmeasured.set(url, (unmeasured.get(url) ?? 0) + 1);
+    }
+
+    for (const resource of page.resources) {
+      const key = `${resource.type} ${resource.path}`;
+      const entry = resources.get(key);
+      if (entry) {
+        entry.pages++;
+      } else {
+        resources.set(key, { ...resource, pages: 1 });
+      }
+    }
+  }
+
+  return {
+    url,
+    generatedAt: new Date().toISOString(),
+    pageCount: pages.length,
+    estimatedPages: pages.filter((page) => page.estimated).length,
+    unmeasured: Array.from(unmeasured, ([url, count]) => ({
+      url,
+      pages: count,
+    })).sort((a, b) => a.url.localeCompare(b.url)),
+    totalSize,
+    averageSize,
+    budgets,
+    violations: checkBudgets(pages, budgets),
+    emissionsModel,
+    totalEmissions: estimateEmissions(totalSize, emissionsModel),
+    averageEmissions: estimateEmissions(averageSize, emissionsModel),
+    pages: [...pages]
+      .sort((a, b) => b.size - a.size)
+      .map((page) => ({
+        ...page,
+        types: getTypeSizes(page),
+        emissions: estimateEmissions(page.size, emissionsModel),
+      })),
+    resources: Array.from(resources.values()).sort((a, b) => b.size - a.size),
+  };
+}
+
+/**
+ * Adds the page about the site to its size report, outside the totals
+ * @param report Size report of the other pages
+ * @param page The measured about page
+ * @returns Size report with the about page and any page budgets it goes over
+ */
+export function addAboutPage(report: SizeReport, page: PageSize): SizeReport {
+  const { page: pageBudget, types } = report.budgets;
+
+  return {
+    ...report,
+    violations: [
+      ...report.violations,
+      ...checkBudgets([page], { page: pageBudget, types }),
+    ],
+    aboutPage: {
+      ...page,
+      types: getTypeSizes(page),
+      emissions: estimateEmissions(page.size, report.emissionsModel),
+    },
+  };
+}
+
+/**
+ * Logs rows as a table with right-aligned sizes
+ * @param title Heading of the table
+ * @param rows Label and size columns of each row
+ */
+function printTable(title: string, rows: string[][]): void {
+  console.log(title);
+  if (rows.length === 0) return;
+
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length)),
+  );
+  for (const row of rows) {
+    const [label, ...columns] = row;
+    console.log(
+      `  ${label.padEnd(widths[0])}  ${columns
+        .map((column, index) => column.padStart(widths[index + 1]))
+        .join("  ")}`,
+    );
+  }
+}
+
+/**
+ * Logs a summary of the size report: totals, the heaviest pages and
+ * resources, and every budget gone over
+ * @param report Size report
+ */
+export function printSizeReport(report: SizeReport): void {
+  console.log(
+    `${report.url}: ${report.pageCount} pages, ${formatKB(report.totalSize)} in total, ${formatKB(report.averageSize)} on average`,
+  );
+  console.log(
+    `Per view of every page: ${formatEmissions(report.totalEmissions)}, of an average page: ${formatEmissions(report.averageEmissions)} (${report.emissionsModel.gridIntensity} g CO2e/kWh grid)`,
+  );
+  if (report.aboutPage) {
+    console.log(
+      `Not in the totals: ${report.aboutPage.page}, ${formatKB(report.aboutPage.size)}`,
+    );
+  }
+
+  if (report.estimatedPages > 0) {
+    const pages =
+      report.estimatedPages === 1
+        ? "1 page includes"
+        : `${report.estimatedPages} pages include`;
+    console.log(
+      `~ ${pages} sizes Arena gives for external images, which weren't measured`,
+    );
+  }
+
+  if (report.unmeasured.length > 0) {
+    const images =
+      report.unmeasured.length === 1
+        ? "1 external image of unknown size isn't"
+        : `${report.unmeasured.length} external images of unknown size aren't`;
+    console.log(
+      `≥ ${images} counted (listed under "unmeasured" in the report)`,
+    );
+  }
+
+  printTable(
+    "Heaviest pages:",
+    report.pages
+      .slice(0, HEAVIEST_COUNT)
+      .map((page) => [
+        page.page,
+        `${page.resources.length} files`,
+        formatKB(page.size, page.estimated),
+      ]),
+  );
+
+  printTable(
+    "Heaviest resources:",
+    report.resources
+      .slice(0, HEAVIEST_COUNT)
+      .map((resource) => [
+        resource.path,
+        resource.external ? `${resource.type} (external)` : resource.type,
+        resource.pages === 1 ? "1 page" : `${resource.pages} pages`,
+        formatKB(resource.size, resource.estimated),
+      ]),
+  );
+
+  if (report.violations.length === 0) return;
+
+  console.error(`${report.violations.length} page-weight budgets exceeded:`);
+  for (const violation of report.violations) {
+    const where = violation.page ? ` on ${violation.page}` : "";
+    console.error(
+      `  ${violation.budget}${where}: ${formatKB(violation.actual)}, budget ${formatKB(violation.limit)}`,
+    );
+  }
+}
@@ -5,6 +5,10 @@
 // 4. Summing all sizes to simulate the complete network transfer weight
 // 5. Updating each page with its total size in kilobytes
 // This provides visitors with an accurate representation of how much data they downloaded.
+// Sizes of external images are measured once and kept in size_cache.json, so
+// the same build gives the same sizes. Offline, only cached sizes and the
+// sizes Arena gives for images are used; images with neither are left out of
+// the totals and listed as unmeasured.
 
 import fs from "fs";
 import path from "path";
@@ -12,13 +16,55 @@ import zlib from "zlib";
 import { JSDOM } from "jsdom";
 import http from "http";
 import https from "https";
+import {
+  SiteConfig,
+  getSiteConfig,
+  getSiteConfigs,
+} from "../scripts/site-config";
+import { SizeCache } from "../scripts/cache";
+import { ABOUT_DIR } from "../scripts/about";
+import { ArenaItem } from "../types/arena-types";
+import {
+  EmissionsModel,
+  estimateEmissions,
+  formatEmissions,
+} from "./emissions";
+import {
+  PageSize,
+  ResourceSize,
+  SizeReport,
+  addAboutPage,
+  buildSizeReport,
+  printSizeReport,
+} from "./size-report";
 
-const ESTIMATED_EXTERNAL_IMAGE_SIZE = 300 * 1024; // Fallback size: 300KB. In case the HTTP HEAD request fails to determine the actual size of an external image.
+// Name of the size report, at the root of the build
+export const SIZE_REPORT_FILE = "size-report.json";
+
+// Sizes of external resources, shared by every site
+const SIZE_CACHE_FILE = path.join(__dirname, "..", "size_cache.json");
+
+/**
+ * Where the sizes of external resources come from
+ */
+export interface SizeOptions {
+  // Never make requests, only use cached or known sizes
+  offline?: boolean;
+  // Sizes measured in earlier builds
+  cache?: SizeCache;
+  // Sizes Arena gives for images, by URL
+  knownSizes?: Map<string, number>;
+  // Model for the energy and emissions shown next to the size
+  emissions?: EmissionsModel;
+  // Page explaining the numbers, which the size links to
+  aboutUrl?: string;
+}
 
 /**
  * Get size of external resource using HTTP HEAD request
+ * @returns Size in bytes, or null if the response doesn't tell
  */
-function getExternalResourceSize(url) {
+function requestResourceSize(url): Promise<number | null> {
   return new Promise((resolve) => {
     const protocol = url.startsWith("https") ? https : http;
     const req = protocol.request(
@@ -26,31 +72,108 @@ function getExternalResourceSize(url) {
       { method: "HEAD", timeout: 3000 },
       (res) => {
         const contentLength = res.headers["content-length"];
-        if (contentLength) {
-          resolve(parseInt(contentLength, 10));
-        } else {
-          resolve(ESTIMATED_EXTERNAL_IMAGE_SIZE);
-        }
+        resolve(contentLength ? parseInt(contentLength, 10) : null);
       },
     );
 
-    req.on("error", () => resolve(ESTIMATED_EXTERNAL_IMAGE_SIZE));
+    req.on("error", () => resolve(null));
     req.on("timeout", () => {
       req.destroy();
-      resolve(ESTIMATED_EXTERNAL_IMAGE_SIZE);
+      resolve(null);
     });
 
     req.end();
   });
 }
 
+/**
+ * Gets the size of an external resource: from the size cache, by requesting
+ * it (unless offline), or from the size Arena gives
+ * @param url URL of the resource
+ * @param options Size cache, known sizes and whether to stay offline
+ * @returns Size in bytes, or null if it is unknown, and whether it is an
+ * estimate
+ */
+async function getExternalResourceSize(
+  url: string,
+  options: SizeOptions,
+): Promise<{ size: number | null; estimated: boolean }> {
+  const cached = options.cache?.get(url);
+  if (cached !== undefined) return { size: cached, estimated: false };
+
+  if (!options.offline) {
+    const size = await requestResourceSize(url);
+    if (size !== null) {
+      options.cache?.set(url, size);
+      return { size, estimated: false };
+    }
+  }
+
+  // Arena gives the size of the original, which pages rarely show as is
+  const known = options.knownSizes?.get(url);
+  return { size: known ?? null, estimated: known !== undefined };
+}
+
+/**
+ * Collects the sizes Arena gives for block images, for every version of
+ * each image, so offline builds don't have to guess them
+ * @param slugMap Map of slugs to ArenaItems
+ * @returns Sizes in bytes by image URL
+ */
+export function getArenaImageSizes(
+  slugMap: Map<string, ArenaItem>,
+): Map<string, number> {
+  const sizes = new Map<string, number>();
+
+  for (const item of slugMap.values()) {
+    const image = item.image;
+    const size = image?.original?.file_size;
+    if (!image || !size) continue;
+
+    for (const version of [
+      image.thumb,
+      image.square,
+      image.display,
+      image.large,
+      image.original,
+    ]) {
+      if (version?.url) sizes.set(version.url, size);
+    }
+  }
+
+  return sizes;
+}
+
+/**
+ * Gets the path a page is served at, e.g. "/tags/event/"
+ * @param filePath Path of the page's file
+ * @param rootDir Build directory of the site
+ * @returns Root-relative path of the page
+ */
+function getPagePath(filePath: string, rootDir: string): string {
+  const relative = path
+    .relative(rootDir, filePath)
+    .split(path.sep)
+    .join("/");
+  return `/${relative.replace(/(^|\/)index\.html$/, "$1")}`;
+}
+
 /**
  * Measures the total size of a page including all its resources
+ * @param filePath Path of the page
+ * @param rootDir Build directory of the site, which absolute paths start in
+ * @param options Where the sizes of external resources come from
+ * @returns Size of the page and of everything it loads, or null if it
+ * couldn't be measured
  */
 export async function measurePageSize(
   filePath,
-  basePath = path.dirname(filePath),
-) {
+  rootDir: string,
+  options: SizeOptions = {},
+): Promise<PageSize | null> {
+  const basePath = path.dirname(filePath);
+  const pagePath = getPagePath(filePath, rootDir);
+
   try {
     // Read and parse HTML
     const content = fs.readFileSync(filePath, "utf8");
@@ -59,12 +182,9 @@ export async function measurePageSize(
 
     // Start with the HTML file size
     let totalSize = getCompressedSize(content);
-    let allResources: Array<{
-      type: string;
-      path: string;
-      size: number;
-      external?: boolean;
-    }> = [];
+    let allResources: ResourceSize[] = [
+      { type: "HTML", path: pagePath, size: totalSize },
+    ];
     let externalImages: string[] = [];
 
     // Process all resource types
@@ -130,7 +250,7 @@ export async function measurePageSize(
             return;
           }
 
-          const resourcePath = resolveResourcePath(src, basePath);
+          const resourcePath = resolveResourcePath(src, basePath, rootDir);
           if (resourcePath && fs.existsSync(resourcePath)) {
             const size = compressible
               ? getCompressedFileSize(resourcePath)
@@ -143,54 +263,90 @@ export async function measurePageSize(
       },
     );
 
-    // Get sizes for external images
+    // Get sizes for external images. Images of unknown size are left out
+    // rather than guessed.
     let externalImageSizes = 0;
+    let estimatedImages = 0;
+    const unmeasured: string[] = [];
     if (externalImages.length > 0) {
       const sizes = await Promise.all(
-        externalImages.map((url) => getExternalResourceSize(url)),
+        externalImages.map((url) => getExternalResourceSize(url, options)),
       );
 
-      sizes.forEach((size, i) => {
-        const numericSize =
-          typeof size === "number" ? size : ESTIMATED_EXTERNAL_IMAGE_SIZE;
-        externalImageSizes += numericSize;
-        totalSize += numericSize;
+      sizes.forEach(({ size, estimated }, i) => {
+        if (size === null) {
+          unmeasured.push(externalImages[i]);
+          return;
+        }
+
+        externalImageSizes += size;
+        totalSize += size;
+        if (estimated) estimatedImages++;
         allResources.push({
           type: "Image",
           path: externalImages[i],
-          size: numericSize,
+          size,
           external: true,
+          estimated,
         });
       });
     }
 
-    // Update the page with the total size
+    // Update the page with the total size, marked as approximate when it
+    // includes estimates and as a lower bound when images couldn't be
+    // measured. The previous size is replaced on re-measuring.
     const totalSizeKB = (totalSize / 1024).toFixed(1);
+    const measuredImages = externalImages.length - unmeasured.length;
+    const details = [
+      measuredImages > 0
+        ? `Includes ${measuredImages} external images (${(externalImageSizes / 1024).toFixed(1)} KB)`
+        : "",
+      estimatedImages > 0 ? `${estimatedImages} of them estimated` : "",
+      unmeasured.length > 0
+        ? `Leaves out ${unmeasured.length} external images of unknown size`
+        : "",
+    ]
+      .filter(Boolean)
+      .join(", ");
+    const summary = [
+      `${unmeasured.length > 0 ? "≥" : estimatedImages > 0 ? "~" : ""}${totalSizeKB} KB`,
+      ...(options.emissions
+        ? [formatEmissions(estimateEmissions(totalSize, options.emissions))]
+        : []),
+    ].join(", ");
     const updated = content.replace(
-      /<p class="size">.*?<\/p>/,
-      `<p class="size">${totalSizeKB} KB</p>` +
-        (externalImages.length > 0
-          ? ` <!-- Includes ${externalImages.length} external images (${(externalImageSizes / 1024).toFixed(1)} KB) -->`
-          : ""),
+      /<p class="size"[^>]*>.*?<\/p>( <!--.*?-->)?/,
+      `<p class="size"${details ? ` title="${details}"` : ""}>` +
+        (options.aboutUrl
+          ? `<a href="${options.aboutUrl}">${summary}</a>`
+          : summary) +
+        "</p>",
     );
 
     fs.writeFileSync(filePath, updated);
+    return {
+      page: pagePath,
+      size: totalSize,
+      resources: allResources,
+      estimated: estimatedImages > 0,
+      unmeasured,
+    };
   } catch (error) {
     console.error(`Error measuring page size for ${filePath}:`, error);
+    return null;
   }
 }
 
 /**
  * Resolves a resource path with fallbacks for different path types
  */
-function resolveResourcePath(src, basePath) {
+function resolveResourcePath(src, basePath, rootDir) {
   if (!src || src.startsWith("http") || src.startsWith("//")) return "";
 
   const isAbsolute = src.startsWith("/");
   const pathsToTry = isAbsolute
     ? [
-        path.resolve(basePath, "..", src.slice(1)),
-        path.resolve(process.cwd(), "build", src.slice(1)),
+        path.resolve(rootDir, src.slice(1)),
         path.resolve(process.cwd(), src.slice(1)),
       ]
     : [path.resolve(basePath, src)];
@@ -220,38 +376,190 @@ function getFileSize(filePath) {
   return fs.statSync(filePath).size;
 }
 
+/**
+ * Logs the raw and compressed size of a file that isn't a page, such as the
+ * search index
+ * @param filePath Path of the file
+ * @param label Name of the file in the log
+ */
+export function reportFileSize(filePath, label = path.basename(filePath)) {
+  if (!fs.existsSync(filePath)) return;
+
+  const rawKB = (getFileSize(filePath) / 1024).toFixed(1);
+  const compressedKB = (getCompressedFileSize(filePath) / 1024).toFixed(1);
+  console.log(`${label}: ${rawKB} KB (${compressedKB} KB compressed)`);
+}
+
 /**
  * Process all HTML files in a directory
+ * @param directory Directory to measure the pages in
+ * @param rootDir Build directory of the site
+ * @param options Where the sizes of external resources come from
+ * @param exclude Directories to leave out, such as other sites built inside
+ * this one
+ * @returns Sizes of the pages measured, in path order
  */
-export async function processDirectory(directory) {
+export async function processDirectory(
+  directory,
+  rootDir = directory,
+  options: SizeOptions = {},
+  exclude: string[] = [],
+): Promise<PageSize[]> {
+  const pages: PageSize[] = [];
   const buildDir = path.resolve(directory);
-  if (!fs.existsSync(buildDir)) return;
-
-  // Process root index.html
-  const indexPath = path.join(buildDir, "index.html");
-  if (fs.existsSync(indexPath)) {
-    await measurePageSize(indexPath, buildDir);
-  }
+  if (!fs.existsSync(buildDir)) return pages;
 
-  // Process subdirectories
   try {
-    const subdirs = fs
+    // Sorted, so pages are measured and reported in the same order each time
+    const entries = fs
       .readdirSync(buildDir, { withFileTypes: true })
-      .filter((dirent) => dirent.isDirectory());
+      .sort((a, b) => a.name.localeCompare(b.name));
 
-    for (const dirent of subdirs) {
-      const itemIndexPath = path.join(buildDir, dirent.name, "index.html");
-      if (fs.existsSync(itemIndexPath)) {
-        await measurePageSize(itemIndexPath, path.join(buildDir, dirent.name));
-      }
+    // Process the pages in this directory: index.html, and 404.html at the root
+    for (const entry of entries) {
+      if (!entry.isFile() || !entry.name.endsWith(".html")) continue;
+      const page = await measurePageSize(
+        path.join(buildDir, entry.name),
+        path.resolve(rootDir),
+        options,
+      );
+      if (page) pages.push(page);
+    }
+
+    // Process subdirectories, including pages nested under sections
+    for (const entry of entries) {
+      const subdir = path.join(buildDir, entry.name);
+      if (!entry.isDirectory() || exclude.includes(subdir)) continue;
+      pages.push(
+        ...(await processDirectory(subdir, rootDir, options, exclude)),
+      );
     }
   } catch (error) {
     console.error(`Error processing subdirectories in ${buildDir}:`, error);
   }
+
+  return pages;
 }
 
-// Main execution
-const directory = process.argv[2] || "./build";
-(async () => {
-  await processDirectory(directory);
-})();
+/**
+ * Gets the options the pages of a site are measured with
+ * @param site Site config
+ * @param options Whether to stay offline and the sizes Arena gives
+ * @returns Options with the site's emissions model and about page
+ */
+export function getSiteSizeOptions(
+  site: SiteConfig,
+  options: Pick<SizeOptions, "offline" | "knownSizes"> = {},
+): SizeOptions {
+  return {
+    ...options,
+    emissions: site.emissions,
+    aboutUrl: site.features.about ? `/${ABOUT_DIR}/` : undefined,
+  };
+}
+
+/**
+ * Measures the page about the site, if it has been written, and adds it to
+ * the size report. It is left out of the totals, since it reports them.
+ * @param site Site config
+ * @param report Size report of the other pages
+ * @param options Where the sizes of external resources come from
+ * @returns Size report with the about page
+ */
+async function measureAboutPage(
+  site: SiteConfig,
+  report: SizeReport,
+  options: SizeOptions,
+): Promise<SizeReport> {
+  const outputDir = path.resolve(site.outputDir);
+  const filePath = path.join(outputDir, ABOUT_DIR, "index.html");
+  if (!site.features.about || !fs.existsSync(filePath)) return report;
+
+  const page = await measurePageSize(filePath, outputDir, options);
+  return page ? addAboutPage(report, page) : report;
+}
+
+/**
+ * Measures every page of a site and writes its size report. External sizes
+ * come from size_cache.json, which is updated with any sizes measured.
+ * @param site Site config, with the build directory, budgets and emissions
+ * model
+ * @param options Whether to stay offline and the sizes Arena gives
+ * @param writeAboutPage Writes the page about the site from the totals of
+ * the other pages, before it is measured on its own
+ * @returns Size report of the site
+ */
+export async function measureSite(
+  site: SiteConfig,
+  options: Pick<SizeOptions, "offline" | "knownSizes"> = {},
+  writeAboutPage?: (report: SizeReport) => void,
+): Promise<SizeReport> {
+  const cache = new SizeCache(SIZE_CACHE_FILE);
+  const outputDir = path.resolve(site.outputDir);
+
+  // Sites built into subdirectories of this one are measured on their own
+  const otherSites = getSiteConfigs()
+    .map((other) => path.resolve(other.outputDir))
+    .filter((dir) => dir !== outputDir);
+
+  const sizeOptions = { ...getSiteSizeOptions(site, options), cache };
+  const pages = await processDirectory(outputDir, outputDir, sizeOptions, [
+    ...otherSites,
+    path.join(outputDir, ABOUT_DIR),
+  ]);
+
+  const totals = buildSizeReport(
+    site.url,
+    pages,
+    site.budgets,
+    site.emissions,
+  );
+  if (site.features.about) writeAboutPage?.(totals);
+
+  const report = await measureAboutPage(site, totals, sizeOptions);
+  cache.save();
+
+  fs.writeFileSync(
+    path.join(outputDir, SIZE_REPORT_FILE),
+    JSON.stringify(report, null, 2) + "\n",
+  );
+  printSizeReport(report);
+
+  return report;
+}
+
+/**
+ * Measures the pages of every site, or of the directory passed in, and
+ * writes their size reports. Every site is reported before the process
+ * fails if any of them is over budget. With --offline, no requests are made.
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const directory = args.find((arg) => !arg.startsWith("--"));
+  const offline =
+    args.includes("--offline") || process.env.ARENA_OFFLINE === "1";
+
+  const sites = directory
+    ? [{ ...getSiteConfig(), url: directory, outputDir: directory }]
+    : getSiteConfigs();
+
+  for (const site of sites) {
+    if (!fs.existsSync(site.outputDir)) continue;
+
+    const report = await measureSite(site, { offline });
+
+    reportFileSize(
+      path.join(site.outputDir, "search", "index.json"),
+      `${site.url} search index`,
+    );
+
+    if (report.violations.length > 0) {
+      process.exitCode = 1;
+    }
+  }
+}
+
+// Only measure when run as a script, not when the build imports this module
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,47 @@
+/**
+ * Records how long each phase of the build takes
+ */
+
+interface PhaseTiming {
+  label: string;
+  ms: number;
+}
+
+const timings: PhaseTiming[] = [];
+
+/**
+ * Runs a build phase and records its duration
+ * @param label Name of the phase shown in the report
+ * @param phase Function doing the work of the phase
+ * @returns Whatever the phase returns
+ */
+export async function timePhase<T>(
+  label: string,
+  phase: () => T | Promise<T>,
+): Promise<T> {
+  const start = process.hrtime.bigint();
+  try {
+    return await phase();
+  } finally {
+    const ms = Number(process.hrtime.bigint() - start) / 1e6;
+    timings.push({ label, ms });
+  }
+}
+
+/**
+ * Logs the recorded phase durations and clears them for the next build
+ */
+export function reportPhaseTimings(): void {
+  if (timings.length === 0) return;
+
+  const width = Math.max(...timings.map((timing) => timing.label.length));
+  const total = timings.reduce((sum, timing) => sum + timing.ms, 0);
+
+  console.log("Build timings:");
+  for (const { label, ms } of timings) {
+    console.log(`  ${label.padEnd(width)}  ${ms.toFixed(1).padStart(9)} ms`);
+  }
+  console.log(`  ${"total".padEnd(width)}  ${total.toFixed(1).padStart(9)} ms`);
+
+  timings.length = 0;
+}
@@ -0,0 +1,297 @@
+/**
+ * Romanisation tables for scripts that commonly turn up in block titles.
+ * Scripts without a table are either kept as Unicode or stripped, depending
+ * on the slug options.
+ */
+
+// Latin letters that don't decompose into a base letter plus a diacritic
+const LATIN: Record<string, string> = {
+  ß: "ss",
+  æ: "ae",
+  Æ: "AE",
+  œ: "oe",
+  Œ: "OE",
+  ø: "o",
+  Ø: "O",
+  đ: "d",
+  Đ: "D",
+  ð: "d",
+  Ð: "D",
+  ł: "l",
+  Ł: "L",
+  þ: "th",
+  Þ: "TH",
+  ı: "i",
+  ĸ: "k",
+};
+
+// Cyrillic (Russian, Ukrainian, Belarusian), based on ISO 9 / BGN simplified
+const CYRILLIC: Record<string, string> = {
+  а: "a",
+  б: "b",
+  в: "v",
+  г: "g",
+  ґ: "g",
+  д: "d",
+  е: "e",
+  ё: "yo",
+  є: "ye",
+  ж: "zh",
+  з: "z",
+  и: "i",
+  і: "i",
+  ї: "yi",
+  й: "y",
+  к: "k",
+  л: "l",
+  м: "m",
+  н: "n",
+  о: "o",
+  п: "p",
+  р: "r",
+  с: "s",
+  т: "t",
+  у: "u",
+  ў: "u",
+  ф: "f",
+  х: "kh",
+  ц: "ts",
+  ч: "ch",
+  ш: "sh",
+  щ: "shch",
+  ъ: "",
+  ы: "y",
+  ь: "",
+  э: "e",
+  ю: "yu",
+  я: "ya",
+};
+
+// Greek, based on ELOT 743
+const GREEK: Record<string, string> = {
+  α: "a",
+  β: "v",
+  γ: "g",
+  δ: "d",
+  ε: "e",
+  ζ: "z",
+  η: "i",
+  θ: "th",
+  ι: "i",
+  κ: "k",
+  λ: "l",
+  μ: "m",
+  ν: "n",
+  ξ: "x",
+  ο: "o",
+  π: "p",
+  ρ: "r",
+  σ: "s",
+  ς: "s",
+  τ: "t",
+  υ: "y",
+  φ: "f",
+  χ: "ch",
+  ψ: "ps",
+  ω: "o",
+};
+
+// Japanese kana, modified Hepburn. Katakana is folded onto hiragana first.
+const KANA: Record<string, string> = {
+  きゃ: "kya",
+  きゅ: "kyu",
+  きょ: "kyo",
+  しゃ: "sha",
+  しゅ: "shu",
+  しょ: "sho",
+  ちゃ: "cha",
+  ちゅ: "chu",
+  ちょ: "cho",
+  にゃ: "nya",
+  にゅ: "nyu",
+  にょ: "nyo",
+  ひゃ: "hya",
+  ひゅ: "hyu",
+  ひょ: "hyo",
+  みゃ: "mya",
+  みゅ: "myu",
+  みょ: "myo",
+  りゃ: "rya",
+  りゅ: "ryu",
+  りょ: "ryo",
+  ぎゃ: "gya",
+  ぎゅ: "gyu",
+  ぎょ: "gyo",
+  じゃ: "ja",
+  じゅ: "ju",
+  じょ: "jo",
+  びゃ: "bya",
+  びゅ: "byu",
+  びょ: "byo",
+  ぴゃ: "pya",
+  ぴゅ: "pyu",
+  ぴょ: "pyo",
+  てぃ: "ti",
+  でぃ: "di",
+  とぅ: "tu",
+  ふぁ: "fa",
+  ふぃ: "fi",
+  ふぇ: "fe",
+  ふぉ: "fo",
+  うぃ: "wi",
+  うぇ: "we",
+  うぉ: "wo",
+  あ: "a",
+  い: "i",
+  う: "u",
+  え: "e",
+  お: "o",
+  か: "ka",
+  き: "ki",
+  く: "ku",
+  け: "ke",
+  こ: "ko",
+  さ: "sa",
+  し: "shi",
+  す: "su",
+  せ: "se",
+  そ: "so",
+  た: "ta",
+  ち: "chi",
+  つ: "tsu",
+  て: "te",
+  と: "to",
+  な: "na",
+  に: "ni",
+  ぬ: "nu",
+  ね: "ne",
+  の: "no",
+  は: "ha",
+  ひ: "hi",
+  ふ: "fu",
+  へ: "he",
+  ほ: "ho",
+  ま: "ma",
+  み: "mi",
+  む: "mu",
+  め: "me",
+  も: "mo",
+  や: "ya",
+  ゆ: "yu",
+  よ: "yo",
+  ら: "ra",
+  り: "ri",
+  る: "ru",
+  れ: "re",
+  ろ: "ro",
+  わ: "wa",
+  ゐ: "i",
+  ゑ: "e",
+  を: "o",
+  ん: "n",
+  が: "ga",
+  ぎ: "gi",
+  ぐ: "gu",
+  げ: "ge",
+  ご: "go",
+  ざ: "za",
+  じ: "ji",
+  ず: "zu",
+  ぜ: "ze",
+  ぞ: "zo",
+  だ: "da",
+  ぢ: "ji",
+  づ: "zu",
+  で: "de",
+  ど: "do",
+  ば: "ba",
+  び: "bi",
+  ぶ: "bu",
+  べ: "be",
+  ぼ: "bo",
+  ぱ: "pa",
+  ぴ: "pi",
+  ぷ: "pu",
+  ぺ: "pe",
+  ぽ: "po",
+  ぁ: "a",
+  ぃ: "i",
+  ぅ: "u",
+  ぇ: "e",
+  ぉ: "o",
+  ゃ: "ya",
+  ゅ: "yu",
+  ょ: "yo",
+  ゔ: "vu",
+};
+
+const TABLES = [LATIN, CYRILLIC, GREEK];
+
+/**
+ * Romanises the parts of a string written in supported scripts
+ * @param str The string to transliterate
+ * @returns The string with supported letters replaced by Latin equivalents
+ */
+export function transliterate(str: string): string {
+  // Fold katakana onto hiragana so one table covers both
+  const folded = str
+    .normalize("NFC")
+    .replace(/[ァ-ヶ]/g, (char) =>
+      String.fromCharCode(char.charCodeAt(0) - 0x60),
+    );
+
+  let result = "";
+
+  for (let i = 0; i < folded.length; i++) {
+    const char = folded[i];
+
+    // Small tsu doubles the following consonant
+    if (char === "っ") {
+      const next = KANA[folded.substring(i + 1, i + 3)] ?? KANA[folded[i + 1]];
+      result += next ? next[0] : "";
+      continue;
+    }
+
+    // The long vowel mark repeats the previous vowel
+    if (char === "ー") {
+      const vowel = result.match(/[aeiou]$/);
+      result += vowel ? vowel[0] : "";
+      continue;
+    }
+
+    const pair = KANA[folded.substring(i, i + 2)];
+    if (pair && folded.length > i + 1) {
+      result += pair;
+      i++;
+      continue;
+    }
+
+    if (KANA[char] !== undefined) {
+      result += KANA[char];
+      continue;
+    }
+
+    // Accented Greek and Cyrillic letters fall back to their base letter
+    const lower = char.toLowerCase();
+    const base = lower.normalize("NFD")[0];
+    const table = TABLES.find(
+      (candidate) =>
+        candidate[char] !== undefined ||
+        candidate[lower] !== undefined ||
+        candidate[base] !== undefined,
+    );
+
+    if (table) {
+      const latin = table[char] ?? table[lower] ?? table[base];
+      // Keep the case of the source letter so titles read naturally
+      result +=
+        char !== lower && latin.length > 0
+          ? latin[0].toUpperCase() + latin.substring(1)
+          : latin;
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+}